@@ -7,6 +7,7 @@ import Play from "@/pages/play";
 import Login from "@/pages/login";
 import Terms from "@/pages/terms";
 import Privacy from "@/pages/privacy";
+import SharePage from "@/pages/share";
 
 function Router() {
   return (
@@ -15,6 +16,7 @@ function Router() {
       <Route path="/login" component={Login} />
       <Route path="/terms" component={Terms} />
       <Route path="/privacy" component={Privacy} />
+      <Route path="/share/:token" component={SharePage} />
       <Route component={NotFound} />
     </Switch>
   );
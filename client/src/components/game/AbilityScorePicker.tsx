@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Dices, Minus, Plus } from 'lucide-react';
+import {
+  abilityNames,
+  abilityModifier,
+  formatModifier,
+  pointBuyCost,
+  AbilityScores,
+  POINT_BUY_BUDGET,
+  POINT_BUY_MIN,
+  POINT_BUY_MAX,
+} from '@shared/progression';
+
+type Method = 'pointbuy' | 'roll';
+
+interface AbilityScorePickerProps {
+  scores: AbilityScores;
+  onChange: (scores: AbilityScores) => void;
+  rollScores?: () => Promise<AbilityScores>; // Server roll for saved adventures; trial games roll locally
+}
+
+export const POINT_BUY_START: AbilityScores = { str: 8, dex: 8, con: 8, int: 8, wis: 8, cha: 8 };
+
+// 4d6, drop the lowest
+function rollAbility(): number {
+  const dice = Array.from(crypto.getRandomValues(new Uint32Array(4)), n => (n % 6) + 1);
+  return dice.sort((a, b) => a - b).slice(1).reduce((sum, d) => sum + d, 0);
+}
+
+export function AbilityScorePicker({ scores, onChange, rollScores }: AbilityScorePickerProps) {
+  const [method, setMethod] = useState<Method>('pointbuy');
+  const pointsLeft = POINT_BUY_BUDGET - pointBuyCost(scores);
+
+  const switchMethod = (next: Method) => {
+    setMethod(next);
+    if (next === 'pointbuy') {
+      onChange(POINT_BUY_START);
+    } else {
+      handleRoll();
+    }
+  };
+
+  const handleRoll = async () => {
+    if (rollScores) {
+      try {
+        onChange(await rollScores());
+      } catch (error) {
+        console.error('Failed to roll ability scores:', error);
+        setMethod('pointbuy');
+        onChange(POINT_BUY_START);
+      }
+      return;
+    }
+    onChange({
+      str: rollAbility(), dex: rollAbility(), con: rollAbility(),
+      int: rollAbility(), wis: rollAbility(), cha: rollAbility(),
+    });
+  };
+
+  const adjust = (ability: keyof AbilityScores, delta: number) => {
+    const value = scores[ability] + delta;
+    if (value < POINT_BUY_MIN || value > POINT_BUY_MAX) return;
+    const next = { ...scores, [ability]: value };
+    if (pointBuyCost(next) > POINT_BUY_BUDGET) return;
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-1 ml-1">
+        <label className="text-[10px] uppercase text-gray-500 font-bold">Abilities</label>
+        <div className="flex bg-black/50 rounded border border-gray-700 p-0.5">
+          {(['pointbuy', 'roll'] as const).map(m => (
+            <button
+              key={m}
+              onClick={() => switchMethod(m)}
+              className={`px-2 py-0.5 rounded text-[10px] font-bold transition-colors ${method === m ? 'bg-mystic text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {m === 'pointbuy' ? 'Point Buy' : 'Roll'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-6 gap-1.5">
+        {abilityNames.map(ability => (
+          <div key={ability} className="flex flex-col items-center bg-black/50 border border-gray-700 rounded py-1.5">
+            <span className="text-[9px] uppercase text-gray-500 font-bold">{ability}</span>
+            <span className="text-sm text-white font-bold">{scores[ability]}</span>
+            <span className="text-[9px] text-mystic">{formatModifier(abilityModifier(scores[ability]))}</span>
+            {method === 'pointbuy' && (
+              <div className="flex gap-1 mt-1">
+                <button onClick={() => adjust(ability, -1)} className="text-gray-500 hover:text-white" aria-label={`Lower ${ability}`}>
+                  <Minus className="w-3 h-3" />
+                </button>
+                <button onClick={() => adjust(ability, 1)} className="text-gray-500 hover:text-white" aria-label={`Raise ${ability}`}>
+                  <Plus className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end mt-1 mr-1 text-[10px]">
+        {method === 'pointbuy' ? (
+          <span className={pointsLeft > 0 ? 'text-gold' : 'text-gray-500'}>{pointsLeft} points left</span>
+        ) : (
+          <button onClick={handleRoll} className="flex items-center gap-1 text-mystic hover:text-white transition-colors">
+            <Dices className="w-3 h-3" /> Reroll
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
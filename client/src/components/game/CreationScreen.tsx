@@ -1,9 +1,39 @@
-import React, { useState, useEffect } from 'react';
-import { Crown, Sparkles, ArrowRight, Loader2, AlertCircle, LogIn, LogOut, BookOpen, X, Play, Trash2 } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Crown, Sparkles, ArrowRight, Loader2, AlertCircle, LogIn, LogOut, BookOpen, X, Play, Trash2, GitBranch, Download, Upload } from 'lucide-react';
 import { CLASSES, RACES, RPG_KEYWORDS, ClassName, RaceName } from '@/lib/game-constants';
 import { API, GameState, Adventure, AdventureAPI } from '@/lib/game-engine';
+import { AbilityScorePicker, POINT_BUY_START } from './AbilityScorePicker';
+import { getMaxHp, AbilityScores } from '@shared/progression';
+import { getStartingInventory } from '@shared/inventory';
+import { autoEquip } from '@shared/equipment';
+import { DIFFICULTY_SETTINGS, difficultyValues, type Difficulty } from '@shared/difficulty';
+import { CAMPAIGN_LENGTH_SETTINGS, campaignLengthValues, type CampaignLength } from '@shared/campaign-length';
 import { useLocation } from 'wouter';
 
+// Adventure list as a family tree: forks sit under the run they branched from.
+// A fork whose parent is gone (deleted) is shown as a root.
+function orderBranches(adventures: Adventure[]): { adventure: Adventure; depth: number }[] {
+  const ids = new Set(adventures.map(a => a.id));
+  const children = new Map<string, Adventure[]>();
+  const roots: Adventure[] = [];
+  for (const adventure of adventures) {
+    const parent = adventure.parentAdventureId;
+    if (parent && parent !== adventure.id && ids.has(parent)) {
+      children.set(parent, [...(children.get(parent) ?? []), adventure]);
+    } else {
+      roots.push(adventure);
+    }
+  }
+
+  const ordered: { adventure: Adventure; depth: number }[] = [];
+  const visit = (adventure: Adventure, depth: number) => {
+    ordered.push({ adventure, depth });
+    for (const child of children.get(adventure.id) ?? []) visit(child, depth + 1);
+  };
+  roots.forEach(root => visit(root, 0));
+  return ordered;
+}
+
 interface RateLimitStatus {
   authenticated: boolean;
   unlimited: boolean;
@@ -22,6 +52,9 @@ export function CreationScreen({ onGameStart, isAuthenticated = false }: Creatio
   const [gender, setGender] = useState<'Male' | 'Female'>('Male');
   const [selectedClass, setSelectedClass] = useState<ClassName>('Warrior');
   const [selectedRace, setSelectedRace] = useState<RaceName>('Human');
+  const [abilities, setAbilities] = useState<AbilityScores>(POINT_BUY_START);
+  const [difficulty, setDifficulty] = useState<Difficulty>('standard');
+  const [campaignLength, setCampaignLength] = useState<CampaignLength>('standard');
   const [customPrompt, setCustomPrompt] = useState('');
   const [isGeneratingName, setIsGeneratingName] = useState(false);
   const [isStarting, setIsStarting] = useState(false);
@@ -37,6 +70,9 @@ export function CreationScreen({ onGameStart, isAuthenticated = false }: Creatio
   const [adventures, setAdventures] = useState<Adventure[]>([]);
   const [adventuresLoading, setAdventuresLoading] = useState(false);
   const [loadingAdventureId, setLoadingAdventureId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // Fetch rate limit status on mount
   useEffect(() => {
@@ -89,6 +125,25 @@ export function CreationScreen({ onGameStart, isAuthenticated = false }: Creatio
     }
   };
 
+  // Import a save file downloaded from any account
+  const handleImportAdventure = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImportError(null);
+    setIsImporting(true);
+    try {
+      const imported = await AdventureAPI.importAdventure(JSON.parse(await file.text()));
+      setAdventures(prev => [imported, ...prev]);
+    } catch (err) {
+      console.error('Failed to import adventure:', err);
+      setImportError(err instanceof SyntaxError ? 'That file is not a save file.' : (err as Error).message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleGenerateName = async () => {
     setIsGeneratingName(true);
     try {
@@ -144,6 +199,7 @@ export function CreationScreen({ onGameStart, isAuthenticated = false }: Creatio
       }
 
       // Initial State
+      const startingInventory = getStartingInventory(selectedClass);
       const initialState: GameState = {
         name: name || 'Adventurer',
         class: selectedClass,
@@ -154,9 +210,20 @@ export function CreationScreen({ onGameStart, isAuthenticated = false }: Creatio
         endgame: null, // Will be populated by game engine
         characterDescription: '',
         history: [],
-        hp: CLASSES[selectedClass].hp,
+        hp: getMaxHp(selectedClass, 1, abilities),
+        maxHp: getMaxHp(selectedClass, 1, abilities),
+        abilities,
+        xp: 0,
+        level: 1,
         gold: 10,
-        inventory: [...CLASSES[selectedClass].items],
+        inventory: startingInventory,
+        equipment: autoEquip(startingInventory),
+        encounter: null,
+        conditions: [],
+        traitsUsed: [],
+        difficulty,
+        act: 1,
+        campaignLength,
         turn: 0,
         maxTurns: isAuthenticated ? -1 : 5 // Unlimited for signed-in, 5 for anonymous
       };
@@ -311,6 +378,51 @@ export function CreationScreen({ onGameStart, isAuthenticated = false }: Creatio
             </div>
           </div>
 
+          {/* Ability Scores */}
+          <AbilityScorePicker
+            scores={abilities}
+            onChange={setAbilities}
+            rollScores={isAuthenticated ? AdventureAPI.rollAbilityScores : undefined}
+          />
+
+          {/* Difficulty */}
+          <div>
+            <label className="text-[10px] uppercase text-gray-500 font-bold mb-1 block ml-1">Difficulty</label>
+            <div className="flex bg-black/50 rounded-lg border border-gray-700 p-1">
+              {difficultyValues.map(d => (
+                <button
+                  key={d}
+                  onClick={() => setDifficulty(d)}
+                  className={`flex-1 rounded py-2 text-xs font-bold transition-colors ${
+                    difficulty === d
+                      ? d === 'hardcore' ? 'bg-blood text-white' : 'bg-mystic text-white'
+                      : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {DIFFICULTY_SETTINGS[d].label}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-gray-500 mt-1 ml-1">{DIFFICULTY_SETTINGS[difficulty].description}</p>
+          </div>
+
+          {/* Campaign Length */}
+          <div>
+            <label className="text-[10px] uppercase text-gray-500 font-bold mb-1 block ml-1">Campaign Length</label>
+            <div className="flex bg-black/50 rounded-lg border border-gray-700 p-1">
+              {campaignLengthValues.map(l => (
+                <button
+                  key={l}
+                  onClick={() => setCampaignLength(l)}
+                  className={`flex-1 rounded py-2 text-xs font-bold transition-colors ${campaignLength === l ? 'bg-mystic text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                  {CAMPAIGN_LENGTH_SETTINGS[l].label}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-gray-500 mt-1 ml-1">{CAMPAIGN_LENGTH_SETTINGS[campaignLength].description}</p>
+          </div>
+
           {/* Custom Prompt */}
           <div>
             <label className="text-[10px] uppercase text-gold font-bold mb-1 block ml-1 flex justify-between">
@@ -328,7 +440,7 @@ export function CreationScreen({ onGameStart, isAuthenticated = false }: Creatio
           {/* Footer */}
           <div className="pt-4 border-t border-gray-700/50">
             <div className="flex justify-center text-[10px] text-gold font-mono mb-3 h-3">
-              {gender} {selectedRace} {selectedClass}
+              {gender} {selectedRace} {selectedClass} • {getMaxHp(selectedClass, 1, abilities)} HP
             </div>
             
             {/* Rate limit error */}
@@ -417,10 +529,11 @@ export function CreationScreen({ onGameStart, isAuthenticated = false }: Creatio
                   No adventures yet. Start your first one!
                 </div>
               ) : (
-                adventures.map(adventure => (
+                orderBranches(adventures).map(({ adventure, depth }) => (
                   <div
                     key={adventure.id}
                     onClick={() => handleLoadAdventure(adventure)}
+                    style={depth > 0 ? { marginLeft: `${Math.min(depth, 4) * 1.25}rem` } : undefined}
                     className={`p-4 bg-black/30 border rounded-lg cursor-pointer transition-all hover:border-mystic/50 hover:bg-mystic/5 ${
                       adventure.status === 'active' ? 'border-mystic/30' : 'border-white/10'
                     }`}
@@ -436,15 +549,28 @@ export function CreationScreen({ onGameStart, isAuthenticated = false }: Creatio
                           }`}>
                             {adventure.status}
                           </span>
+                          {adventure.difficulty !== 'standard' && (
+                            <span className={`text-[10px] px-1.5 py-0.5 rounded uppercase font-bold ${
+                              adventure.difficulty === 'hardcore' ? 'bg-blood/20 text-blood' : 'bg-mystic/20 text-mystic'
+                            }`}>
+                              {DIFFICULTY_SETTINGS[adventure.difficulty]?.label ?? adventure.difficulty}
+                            </span>
+                          )}
                         </div>
                         <p className="text-xs text-gray-400 truncate">
-                          {adventure.characterRace} {adventure.characterClass} • Turn {adventure.turnCount}
+                          {adventure.characterRace} {adventure.characterClass} • Turn {adventure.turnCount} • {CAMPAIGN_LENGTH_SETTINGS[adventure.campaignLength]?.label ?? 'Standard'}
                         </p>
                         {adventure.campaignTitle && (
                           <p className="text-xs text-mystic/70 truncate mt-1 italic">
                             {adventure.campaignTitle}
                           </p>
                         )}
+                        {adventure.forkedFromTurn != null && (
+                          <p className="text-[10px] text-gray-500 mt-1 flex items-center gap-1">
+                            <GitBranch className="w-3 h-3" />
+                            {depth > 0 ? `Branched at turn ${adventure.forkedFromTurn}` : `Fork of a deleted run, from turn ${adventure.forkedFromTurn}`}
+                          </p>
+                        )}
                         <p className="text-[10px] text-gray-600 mt-1">
                           {new Date(adventure.lastPlayedAt).toLocaleDateString()}
                         </p>
@@ -454,6 +580,15 @@ export function CreationScreen({ onGameStart, isAuthenticated = false }: Creatio
                           <Loader2 className="w-4 h-4 text-mystic animate-spin" />
                         ) : (
                           <>
+                            <a
+                              href={AdventureAPI.saveFileUrl(adventure.id)}
+                              download
+                              onClick={(e) => e.stopPropagation()}
+                              className="p-1.5 text-gray-500 hover:text-white transition-colors"
+                              title="Download Save File"
+                            >
+                              <Download className="w-4 h-4" />
+                            </a>
                             <button
                               onClick={(e) => handleDeleteAdventure(adventure.id, e)}
                               className="p-1.5 text-gray-500 hover:text-red-400 transition-colors"
@@ -472,7 +607,27 @@ export function CreationScreen({ onGameStart, isAuthenticated = false }: Creatio
             </div>
             
             {/* Footer */}
-            <div className="p-4 border-t border-white/10">
+            <div className="p-4 border-t border-white/10 space-y-2">
+              {importError && (
+                <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-2 text-red-400 text-xs">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  <span>{importError}</span>
+                </div>
+              )}
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleImportAdventure}
+                className="hidden"
+              />
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={isImporting}
+                className="w-full py-2.5 rounded-lg bg-transparent border border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 text-sm font-bold transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />} Import Save File
+              </button>
               <button
                 onClick={() => setShowAdventures(false)}
                 className="w-full py-2.5 rounded-lg bg-mystic/10 border border-mystic/30 text-mystic hover:bg-mystic/20 text-sm font-bold transition-all"
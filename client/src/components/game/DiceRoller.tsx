@@ -1,75 +1,103 @@
 import React, { useEffect, useState } from 'react';
+import type { RolledDie } from '@shared/dice-notation';
 
 interface DiceRollerProps {
   rolling: boolean;
-  onRollComplete?: (result: number) => void;
+  dice: RolledDie[] | null; // Server-rolled dice; they keep spinning until these arrive
+  pendingSides?: number[];  // Dice to spin while waiting (a single d20 by default)
+  onRollComplete?: () => void;
 }
 
-export function DiceRoller({ rolling, onRollComplete }: DiceRollerProps) {
+// Placeholder faces shown while a die spins
+function spinFaces(sides: number): number[] {
+  return [sides, 1, Math.ceil(sides / 2), Math.max(2, sides - 1), Math.ceil(sides / 3), Math.min(sides, 3)];
+}
+
+const FACE_CLASSES = ['f-front', 'f-back', 'f-right', 'f-left', 'f-top', 'f-bottom'];
+
+export function DiceRoller({ rolling, dice, pendingSides = [20], onRollComplete }: DiceRollerProps) {
   const [visible, setVisible] = useState(false);
-  const [displayResult, setDisplayResult] = useState<number | null>(null);
+  const [displayDice, setDisplayDice] = useState<RolledDie[] | null>(null);
   const [showResult, setShowResult] = useState(false);
   const [isSpinning, setIsSpinning] = useState(false);
 
+  // Start spinning as soon as a roll is requested
   useEffect(() => {
     if (rolling) {
       setVisible(true);
       setShowResult(false);
-      setDisplayResult(null);
+      setDisplayDice(null);
       setIsSpinning(true);
-      
-      // Generate roll result immediately
-      const result = Math.floor(Math.random() * 20) + 1;
-      
-      // Show result after dice settles (stop spinning, show final number)
-      const resultTimer = setTimeout(() => {
-        setIsSpinning(false);
-        setDisplayResult(result);
-        setShowResult(true);
-      }, 1200);
+    }
+  }, [rolling]);
 
-      // Complete and hide
-      const hideTimer = setTimeout(() => {
-        setVisible(false);
-        setShowResult(false);
-        setDisplayResult(null);
-        if (onRollComplete) onRollComplete(result);
-      }, 2500);
+  // Settle on the server's result once it arrives
+  useEffect(() => {
+    if (!rolling || dice === null) return;
 
-      return () => {
-        clearTimeout(resultTimer);
-        clearTimeout(hideTimer);
-      };
-    }
-  }, [rolling, onRollComplete]);
+    // Show result after dice settles (stop spinning, show final number)
+    const resultTimer = setTimeout(() => {
+      setIsSpinning(false);
+      setDisplayDice(dice);
+      setShowResult(true);
+    }, 600);
+
+    // Complete and hide
+    const hideTimer = setTimeout(() => {
+      setVisible(false);
+      setShowResult(false);
+      setDisplayDice(null);
+      if (onRollComplete) onRollComplete();
+    }, 1900);
+
+    return () => {
+      clearTimeout(resultTimer);
+      clearTimeout(hideTimer);
+    };
+  }, [rolling, dice, onRollComplete]);
 
   if (!visible && !rolling) return null;
 
-  const isCriticalSuccess = displayResult === 20;
-  const isCriticalFail = displayResult === 1;
+  const shown: RolledDie[] = displayDice ?? pendingSides.map(sides => ({ sides, value: sides }));
+  // Crits only mean something for a lone kept d20 (advantage shows a second, dropped one)
+  const kept = displayDice?.filter(die => !die.dropped) ?? [];
+  const single = kept.length === 1 && kept[0].sides === 20 && displayDice!.every(die => die.sides === 20) ? kept[0].value : null;
+  const isCriticalSuccess = single === 20;
+  const isCriticalFail = single === 1;
 
   return (
     <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
       <div className="flex flex-col items-center gap-4">
         {/* Dice - shows spinning animation then settles on result */}
-        <div className={`dice-wrap ${isCriticalSuccess ? 'animate-pulse' : ''}`} style={{ display: 'block' }}>
-          <div 
-            className={`dice-cube ${isSpinning ? 'dice-spinning' : ''} ${isCriticalSuccess ? 'shadow-[0_0_30px_rgba(251,191,36,0.8)]' : ''} ${isCriticalFail ? 'shadow-[0_0_30px_rgba(239,68,68,0.8)]' : ''}`}
-          >
-            {/* When spinning, show random faces. When settled, show result on front face */}
-            <div className={`face f-front ${showResult ? 'text-3xl' : ''} ${isCriticalSuccess ? 'text-gold' : isCriticalFail ? 'text-blood' : ''}`}>
-              {showResult && displayResult ? displayResult : 20}
-            </div>
-            <div className="face f-back">{showResult && displayResult ? displayResult : 1}</div>
-            <div className="face f-right">{showResult && displayResult ? displayResult : 8}</div>
-            <div className="face f-left">{showResult && displayResult ? displayResult : 12}</div>
-            <div className="face f-top">{showResult && displayResult ? displayResult : 19}</div>
-            <div className="face f-bottom">{showResult && displayResult ? displayResult : 3}</div>
-          </div>
+        <div className={`flex flex-wrap justify-center max-w-xs md:max-w-md ${shown.length > 4 ? 'gap-2 scale-75' : 'gap-6'}`}>
+          {shown.map((die, idx) => {
+            const faces = showResult ? Array(6).fill(die.value) : spinFaces(die.sides);
+            return (
+              <div key={idx} className={`flex flex-col items-center gap-2 transition-opacity ${showResult && die.dropped ? 'opacity-30' : ''}`}>
+                <div className={`dice-wrap ${isCriticalSuccess ? 'animate-pulse' : ''}`} style={{ display: 'block' }}>
+                  <div
+                    className={`dice-cube ${isSpinning ? 'dice-spinning' : ''} ${isCriticalSuccess ? 'shadow-[0_0_30px_rgba(251,191,36,0.8)]' : ''} ${isCriticalFail ? 'shadow-[0_0_30px_rgba(239,68,68,0.8)]' : ''}`}
+                  >
+                    {FACE_CLASSES.map((face, faceIdx) => (
+                      <div
+                        key={face}
+                        className={`face ${face} ${faceIdx === 0 && showResult ? 'text-3xl' : ''} ${faceIdx === 0 && isCriticalSuccess ? 'text-gold' : faceIdx === 0 && isCriticalFail ? 'text-blood' : ''}`}
+                      >
+                        {faces[faceIdx]}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                {shown.length > 1 && (
+                  <span className="text-[10px] font-bold text-gold/70 uppercase tracking-widest">d{die.sides}</span>
+                )}
+              </div>
+            );
+          })}
         </div>
 
         {/* Result Text Display */}
-        {showResult && displayResult && (
+        {showResult && (isCriticalSuccess || isCriticalFail) && (
           <div className={`fade-in text-center ${isCriticalSuccess ? 'animate-bounce' : ''}`}>
             {isCriticalSuccess && (
               <div className="text-gold text-lg font-bold uppercase tracking-widest animate-pulse">
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Swords, Skull } from 'lucide-react';
+import type { Encounter } from '@shared/encounter';
+
+interface EncounterPanelProps {
+  encounter: Encounter;
+}
+
+const STATUS_LABELS: Record<Encounter['status'], string> = {
+  active: 'In Combat',
+  won: 'Victory',
+  fled: 'Escaped',
+  lost: 'Defeated',
+};
+
+export function EncounterPanel({ encounter }: EncounterPanelProps) {
+  const lastRound = encounter.lastRound;
+
+  return (
+    <div className="bg-black/60 backdrop-blur-md rounded-xl border border-red-500/30 p-3 shadow-lg">
+      <div className="flex justify-between items-center mb-2">
+        <div className="flex items-center gap-1.5 text-[10px] font-bold text-red-400 uppercase tracking-widest">
+          <Swords className="w-3 h-3" /> {STATUS_LABELS[encounter.status]}
+        </div>
+        {encounter.round > 0 && (
+          <span className="text-[10px] text-gray-500 font-bold">Round {encounter.round}</span>
+        )}
+      </div>
+
+      <div className="space-y-1.5">
+        {encounter.enemies.map(enemy => {
+          const percent = Math.max(0, Math.min(100, (enemy.hp / enemy.maxHp) * 100));
+          return (
+            <div key={enemy.id} className={`flex items-center gap-2 text-[10px] md:text-xs ${enemy.hp > 0 ? 'text-gray-200' : 'text-gray-600 line-through'}`}>
+              {enemy.hp > 0 ? <span className="w-3" /> : <Skull className="w-3 h-3" />}
+              <span className="w-24 md:w-32 truncate font-bold">{enemy.name}</span>
+              <div className="flex-1 h-1.5 bg-red-950/80 rounded-full overflow-hidden">
+                <div className="h-full bg-red-500 transition-all duration-500" style={{ width: `${percent}%` }} />
+              </div>
+              <span className="w-12 text-right">{enemy.hp}/{enemy.maxHp}</span>
+              <span className="w-10 text-right text-gray-500" title="Armor">AC {enemy.armor}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {lastRound && lastRound.attacks.length > 0 && (
+        <ul className="mt-2 pt-2 border-t border-white/10 space-y-0.5 text-[10px] text-gray-400">
+          {lastRound.attacks.map((attack, idx) => (
+            <li key={idx}>
+              {attack.attacker} → {attack.target}: {attack.raw} ({attack.total} vs {attack.defense}){' '}
+              {attack.hit
+                ? <span className="text-red-400 font-bold">{attack.critical ? 'CRIT ' : ''}-{attack.damage}</span>
+                : <span className="text-gray-500">miss</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
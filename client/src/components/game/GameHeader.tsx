@@ -1,56 +1,105 @@
+import React from 'react';
 import { Book, Hourglass, Heart, Coins, User } from 'lucide-react';
+import { formatCondition, type Condition } from '@shared/conditions';
+import { ACT_LABELS, type Act } from '@shared/acts';
 
 interface GameHeaderProps {
   turn: number;
   maxTurns: number;
+  level: number;
+  act: Act;
   hp: number;
+  maxHp: number;
   gold: number;
+  conditions: Condition[];
   onShowLore: () => void;
   onShowInventory: () => void;
+  children?: React.ReactNode; // Panels stacked under the header row (e.g. an active fight)
 }
 
 export function GameHeader({
   turn,
   maxTurns,
+  level,
+  act,
   hp,
+  maxHp,
   gold,
+  conditions,
   onShowLore,
   onShowInventory,
+  children,
 }: GameHeaderProps) {
+  const hpPercent = maxHp > 0 ? Math.max(0, Math.min(100, (hp / maxHp) * 100)) : 0;
+
   return (
-    <div className="absolute top-0 left-0 right-0 p-4 z-30 flex justify-between items-center">
-      {/* Left: Lore + Turn */}
-      <div className="flex items-center gap-2">
-        <button
-          onClick={onShowLore}
-          className="flex items-center justify-center w-8 h-8 bg-black/40 backdrop-blur-md rounded-full border border-white/10 text-mystic hover:text-white hover:bg-mystic/20 transition-all shadow-lg"
-          title="Read Lore"
-        >
-          <Book className="w-4 h-4" />
-        </button>
-        <div className="flex items-center gap-1.5 bg-black/40 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/10 text-[10px] font-bold text-gray-300 shadow-lg">
-          <Hourglass className="w-3 h-3" />
-          <span>Turn {turn}{maxTurns > 0 ? `/${maxTurns}` : ''}</span>
+    <div className="absolute top-0 left-0 right-0 p-4 z-30 space-y-2">
+      <div className="flex justify-between items-center">
+        {/* Left: Lore + Turn + Act */}
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onShowLore}
+            className="flex items-center justify-center w-8 h-8 bg-black/40 backdrop-blur-md rounded-full border border-white/10 text-mystic hover:text-white hover:bg-mystic/20 transition-all shadow-lg"
+            title="Read Lore"
+          >
+            <Book className="w-4 h-4" />
+          </button>
+          <div className="flex items-center gap-1.5 bg-black/40 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/10 text-[10px] font-bold text-gray-300 shadow-lg">
+            <Hourglass className="w-3 h-3" />
+            <span>Turn {turn}{maxTurns > 0 ? `/${maxTurns}` : ''}</span>
+          </div>
+          <div className="bg-black/40 backdrop-blur-md px-3 py-1.5 rounded-full border border-gold/30 text-[10px] font-bold text-gold shadow-lg">
+            {ACT_LABELS[act]}
+          </div>
+          <div className="bg-black/40 backdrop-blur-md px-3 py-1.5 rounded-full border border-mystic/30 text-[10px] font-bold text-mystic shadow-lg">
+            Lv {level}
+          </div>
         </div>
-      </div>
 
-      {/* Right: Health + Gold + Bag (all in one row) */}
-      <div className="flex items-center gap-2">
-        <div className="flex items-center gap-1.5 bg-black/40 backdrop-blur-md px-3 py-1.5 rounded-full border border-red-500/20 text-[10px] font-bold text-red-400 shadow-lg">
-          <Heart className="w-3 h-3 fill-current" />
-          <span>{hp}</span>
-        </div>
-        <div className="flex items-center gap-1.5 bg-black/40 backdrop-blur-md px-3 py-1.5 rounded-full border border-yellow-500/20 text-[10px] font-bold text-gold shadow-lg">
-          <Coins className="w-3 h-3 fill-current" />
-          <span>{gold}</span>
+        {/* Right: Health + Gold + Bag (all in one row) */}
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1.5 bg-black/40 backdrop-blur-md px-3 py-1.5 rounded-full border border-red-500/20 text-[10px] font-bold text-red-400 shadow-lg">
+            <Heart className="w-3 h-3 fill-current" />
+            <div className="w-10 md:w-16 h-1.5 bg-red-950/80 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-red-500 transition-all duration-500"
+                style={{ width: `${hpPercent}%` }}
+              />
+            </div>
+            <span>{hp}/{maxHp}</span>
+          </div>
+          <div className="flex items-center gap-1.5 bg-black/40 backdrop-blur-md px-3 py-1.5 rounded-full border border-yellow-500/20 text-[10px] font-bold text-gold shadow-lg">
+            <Coins className="w-3 h-3 fill-current" />
+            <span>{gold}</span>
+          </div>
+          <button
+            onClick={onShowInventory}
+            className="flex items-center gap-1.5 bg-black/40 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/10 text-[10px] font-bold text-gray-300 hover:text-white hover:bg-black/60 transition-all shadow-lg"
+          >
+            <User className="w-3 h-3" /> CHAR
+          </button>
         </div>
-        <button
-          onClick={onShowInventory}
-          className="flex items-center gap-1.5 bg-black/40 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/10 text-[10px] font-bold text-gray-300 hover:text-white hover:bg-black/60 transition-all shadow-lg"
-        >
-          <User className="w-3 h-3" /> CHAR
-        </button>
       </div>
+
+      {/* Active conditions */}
+      {conditions.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {conditions.map(condition => {
+            const harmful = condition.rollModifier < 0 || condition.hpPerTurn < 0;
+            return (
+              <span
+                key={condition.name}
+                title={`${formatCondition(condition)}${condition.description ? ` - ${condition.description}` : ''}`}
+                className={`bg-black/40 backdrop-blur-md px-2.5 py-1 rounded-full border text-[10px] font-bold shadow-lg ${harmful ? 'border-red-500/30 text-red-300' : 'border-emerald-500/30 text-emerald-300'}`}
+              >
+                {condition.name} <span className="opacity-60">{condition.turnsLeft}</span>
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      {children}
     </div>
   );
 }
@@ -1,13 +1,56 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { useLocation } from 'wouter';
 import { marked } from 'marked';
-import { ArrowRightCircle, Skull, RefreshCw, Home, X, RotateCcw, Loader2, AlertTriangle, Crown, LogIn, LogOut } from 'lucide-react';
-import { GameState, API, AdventureAPI, EpilogueResponse } from '@/lib/game-engine';
+import { ArrowRightCircle, Skull, RefreshCw, Home, X, RotateCcw, Loader2, AlertTriangle, Crown, LogIn, LogOut, History, GitBranch } from 'lucide-react';
+import { GameState, API, AdventureAPI, EpilogueResponse, TurnStreamHandlers } from '@/lib/game-engine';
 import { DiceRoller } from './DiceRoller';
+import { StorybookExport } from './StorybookExport';
+import { ShareAdventure } from './ShareAdventure';
 import { GameHeader } from './GameHeader';
+import { EncounterPanel } from './EncounterPanel';
+import { RollBreakdown } from './RollBreakdown';
 import { CLASSES, RACES, SKILL_CATEGORIES } from '@/lib/game-constants';
+import {
+  abilityNames,
+  abilityModifier,
+  formatModifier,
+  getCharacterProgress,
+  getMaxHp,
+  xpForNextLevel,
+  ABILITY_LABELS,
+} from '@shared/progression';
+import { groupInventory, ITEM_CATEGORY_LABELS, InventoryItem } from '@shared/inventory';
+import { discardedRoll, getRollOutcome, type RollOutcome, type RollRecord } from '@shared/dice';
+import { DIFFICULTY_SETTINGS } from '@shared/difficulty';
+import { ACT_LABELS } from '@shared/acts';
+import { formatDiceRoll, parseDiceNotation, parseRollCommand, type DiceRollResult, type RolledDie } from '@shared/dice-notation';
+import {
+  EQUIPMENT_SLOT_LABELS,
+  EquipmentSlot,
+  getEquipmentBonuses,
+  normalizeEquipment,
+  slotsForItem,
+  sumBonuses,
+} from '@shared/equipment';
 import stockImage from '@assets/stock_images/dark_fantasy_rpg_atm_0f6db108.jpg';
 
+// Inline dice badge color by outcome (resumed turns only know the raw die)
+const ROLL_OUTCOME_STYLES: Record<RollOutcome, string> = {
+  crit: 'bg-gold/20 text-gold border border-gold/30',
+  critfail: 'bg-blood/20 text-blood border border-blood/30',
+  success: 'bg-green-500/20 text-green-400 border border-green-500/30',
+  partial: 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/30',
+  fail: 'bg-red-500/20 text-red-400 border border-red-500/30',
+};
+
+// Dice for a turn's check: one d20, or both with the discarded one dropped
+function turnRollDice(roll: RollRecord): RolledDie[] {
+  const discarded = discardedRoll(roll);
+  return discarded === null
+    ? [{ sides: 20, value: roll.raw }]
+    : [{ sides: 20, value: roll.raw }, { sides: 20, value: discarded, dropped: true }];
+}
+
 interface GameScreenProps {
   initialState: GameState;
   onReset: () => void;
@@ -21,17 +64,19 @@ interface ConfirmationState {
   onConfirm: () => void;
   confirmText: string;
   cancelText: string;
-  type: 'restart' | 'main-menu';
+  type: 'restart' | 'rewind' | 'fork' | 'main-menu';
 }
 
 export function GameScreen({ initialState, onReset, isAuthenticated = false }: GameScreenProps) {
   const [, setLocation] = useLocation();
   const [state, setState] = useState<GameState>(initialState);
+  const canRestart = DIFFICULTY_SETTINGS[state.difficulty].canRestart; // Hardcore deaths are final
   const [input, setInput] = useState('');
   const [isBusy, setIsBusy] = useState(false);
   const [isRolling, setIsRolling] = useState(false);
   const [showInventory, setShowInventory] = useState(false);
   const [showLore, setShowLore] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [gameOver, setGameOver] = useState(false);
   const [showGameOverModal, setShowGameOverModal] = useState(false);
   const [epilogue, setEpilogue] = useState<EpilogueResponse | null>(null);
@@ -46,6 +91,11 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
   const [fadeKey, setFadeKey] = useState(0); // For triggering fade animation
   const [journeyComplete, setJourneyComplete] = useState(false); // Reached max turns but not dead
   const [lastDiceRoll, setLastDiceRoll] = useState<number | null>(null); // For display (raw d20 value)
+  const [rolledDice, setRolledDice] = useState<RolledDie[] | null>(null); // Server dice the animation settles on
+  const [pendingSides, setPendingSides] = useState<number[]>([20]); // Dice spinning until the server answers
+  const [diceLog, setDiceLog] = useState<DiceRollResult[]>([]); // Notation rolls (/roll, healing) shown until the next turn
+  const [diceError, setDiceError] = useState<string | null>(null);
+  const [lastRoll, setLastRoll] = useState<RollRecord | null>(null); // Full record for the breakdown (this session only)
 
   // Confirmation Modal State
   const [confirmation, setConfirmation] = useState<ConfirmationState>({
@@ -118,22 +168,55 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
   }, [state.turn, state.history.length]); // Re-run when turn or history changes (for restart)
 
   // Handle turn - like original's turn() function
-  const handleTurn = async (inputText: string, diceRoll?: number) => {
+  const handleTurn = async (inputText: string) => {
     if (isBusy) return;
     setIsBusy(true);
 
     // Start image loading state (blur current image via state)
     setImageLoading(true);
 
-    // Add user input to history (include dice roll for persistence)
+    // Add user input to history (the dice roll is filled in from the server's response)
     const newHistory = [...state.history];
     if (state.turn > 0) {
-      newHistory.push({ role: 'user', parts: [{ text: inputText }], diceRoll: diceRoll ?? null });
+      newHistory.push({ role: 'user', parts: [{ text: inputText }], diceRoll: null });
     }
 
     try {
-      // Get narrative response with dice roll
-      const response = await API.chat(newHistory, state, inputText, diceRoll);
+      // Render narrative progressively as the server streams it
+      let streamedNarrative = '';
+      const handlers: TurnStreamHandlers = {
+        onRoll: (roll) => {
+          setRolledDice(turnRollDice(roll));
+          setLastDiceRoll(roll.raw);
+          setLastRoll(roll);
+        },
+        onNarrative: (text) => {
+          if (!streamedNarrative) {
+            setFadeKey(prev => prev + 1);
+          }
+          streamedNarrative += text;
+          setNarrative(marked.parse(streamedNarrative) as string);
+        },
+      };
+
+      // Signed-in players: the server generates and saves the turn in one call
+      const saved = (isAuthenticated && state.id)
+        ? { adventureId: state.id, ...(await AdventureAPI.playTurnStream(state.id, inputText, handlers)) }
+        : null;
+      const response = saved ? saved.response : await API.chatStream(newHistory, state, inputText, handlers);
+
+      // Hand the server's roll to the dice animation (if the stream didn't already)
+      setLastRoll(response.roll ?? null); // Final record includes traits that fired during the turn
+      setDiceLog(response.diceRolls ?? []);
+      if (response.roll) {
+        setRolledDice(turnRollDice(response.roll));
+        setLastDiceRoll(response.roll.raw);
+        if (state.turn > 0) {
+          newHistory[newHistory.length - 1] = { ...newHistory[newHistory.length - 1], diceRoll: response.roll.raw };
+        }
+      } else {
+        setIsRolling(false);
+      }
 
       // Update state immediately (don't store visual_prompt in history)
       const historyResponse = { ...response };
@@ -144,14 +227,24 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
       setState(prev => ({
         ...prev,
         hp: response.hp_current,
+        maxHp: response.max_hp ?? prev.maxHp,
+        xp: response.xp ?? prev.xp,
+        level: response.level ?? prev.level,
         gold: response.gold,
         inventory: response.inventory,
+        equipment: normalizeEquipment(prev.equipment, response.inventory), // Lost items come off
+        encounter: response.encounter !== undefined ? response.encounter : prev.encounter,
+        conditions: response.conditions ?? prev.conditions,
+        traitsUsed: response.traitsUsed ?? prev.traitsUsed,
+        act: response.act ?? prev.act,
         turn: newTurn,
         history: [...newHistory, { role: 'model', parts: [{ text: JSON.stringify(historyResponse) }] }]
       }));
 
-      // Update narrative with fade-in effect (like original)
-      setFadeKey(prev => prev + 1);
+      // Update narrative with the final validated text (fade in if nothing was streamed)
+      if (!streamedNarrative) {
+        setFadeKey(prev => prev + 1);
+      }
       setNarrative(marked.parse(response.narrative) as string);
       setOptions(response.options || []);
 
@@ -163,34 +256,11 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
         setJourneyComplete(true);
       }
 
-      // Save turn to server ASYNC (fire-and-forget, don't block UI)
-      if (isAuthenticated && state.id) {
-        // Save turn in background (include dice roll for persistence)
-        AdventureAPI.saveTurn(state.id, {
-          playerAction: inputText,
-          narrative: response.narrative,
-          visualPrompt: response.visual_prompt,
-          hpAfter: response.hp_current,
-          goldAfter: response.gold,
-          inventoryAfter: response.inventory,
-          options: response.options || [],
-          diceRoll: diceRoll ?? null,
-        }).catch(err => console.error('Failed to save turn:', err));
-
-        // Update status if game over (also fire-and-forget)
-        if (response.game_over) {
-          AdventureAPI.updateAdventure(state.id, {
-            status: 'completed',
-            endingType: response.hp_current <= 0 ? 'death' : 'victory',
-          }).catch(err => console.error('Failed to update adventure status:', err));
-        }
-      }
-
       // Generate image ASYNC (non-blocking) - server saves to adventure if ID provided
       if (response.visual_prompt) {
         setPendingImage(true); // Mark that we're waiting for a generated image
-        // Pass adventureId so server can save image directly (no round-trip needed)
-        API.generateImage(response.visual_prompt, state.id).then(b64 => {
+        // Pass the saved turn so the server can store the image on it (no round-trip needed)
+        API.generateImage(response.visual_prompt, saved ? { adventureId: saved.adventureId, turnNumber: saved.turnNumber } : undefined).then(b64 => {
           if (b64) {
             const newSrc = `data:image/jpeg;base64,${b64}`;
             // Set the new image source - the onLoad handler will clear loading state
@@ -214,6 +284,7 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
     } catch (e: any) {
       console.error("Turn error:", e?.message || e, e);
       setImageLoading(false);
+      setIsRolling(false);
     } finally {
       setIsBusy(false);
     }
@@ -231,28 +302,65 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
     }
   }, [pendingImage]);
 
+  // "/roll 2d6+3" rolls dice on the server without playing a turn
+  const handleDiceCommand = async (notation: string) => {
+    const expression = parseDiceNotation(notation);
+    if (!expression) {
+      setDiceError('Invalid dice notation (try 2d6+3, 4d6kh3 or 1d20 adv)');
+      return;
+    }
+
+    setIsBusy(true);
+    setDiceError(null);
+    setPendingSides(expression.groups.flatMap(group => Array(group.count).fill(group.sides)));
+    setIsRolling(true);
+    try {
+      const roll = await API.rollDice(notation, isAuthenticated ? state.id : undefined);
+      setRolledDice(roll.dice);
+      setDiceLog([roll]);
+    } catch (e: any) {
+      setIsRolling(false);
+      setDiceError(e?.message || 'Failed to roll dice');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
   const handleInputSubmit = async () => {
     if (!input.trim() || isBusy) return;
     const txt = input;
     setInput('');
+
+    const notation = parseRollCommand(txt);
+    if (notation !== null) {
+      handleDiceCommand(notation);
+      return;
+    }
+
     setLastAction(txt);
-    setIsRolling(true);
+    startTurnRoll();
+    handleTurn(txt);
   };
 
   const handleOptionClick = (option: string) => {
     if (isBusy || gameOver) return;
     setLastAction(option);
+    startTurnRoll();
+    handleTurn(option);
+  };
+
+  // A turn spins the d20 until the server says whether a roll was needed
+  const startTurnRoll = () => {
+    setDiceLog([]);
+    setDiceError(null);
+    setPendingSides([20]);
     setIsRolling(true);
   };
 
-  const onRollComplete = (rawRoll: number) => {
-    setLastDiceRoll(rawRoll);
+  const onRollComplete = useCallback(() => {
     setIsRolling(false);
-    
-    if (lastAction) {
-      handleTurn(lastAction, rawRoll);
-    }
-  };
+    setRolledDice(null);
+  }, []);
 
   // --- Confirmation Helpers ---
   const requestRestart = () => {
@@ -282,9 +390,17 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
         setState(prev => ({
           ...prev,
           history: [],
-          hp: 30,
+          hp: getMaxHp(prev.class, 1, prev.abilities),
+          maxHp: getMaxHp(prev.class, 1, prev.abilities),
+          xp: 0,
+          level: 1,
           gold: 10,
           inventory: [],
+          equipment: {},
+          encounter: null,
+          conditions: [],
+          traitsUsed: [],
+          act: 1,
           turn: 0,
           maxTurns: isAuthenticated ? -1 : 5, // Unlimited for signed-in users
           lastNarrative: undefined,
@@ -303,6 +419,71 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
     });
   };
 
+  // Saved adventures can go back to any earlier turn or branch off from one (not in hardcore)
+  const canRewind = canRestart && isAuthenticated && !!state.id && state.turn > 1;
+
+  // Switch the screen to a rewound or forked adventure
+  const loadAdventure = (next: GameState) => {
+    setState(next);
+    setGameOver(false);
+    setJourneyComplete(false);
+    setEpilogue(null);
+    setNarrative(marked.parse(next.lastNarrative ?? '') as string);
+    setOptions(next.lastOptions ?? []);
+    setLastAction(next.lastAction ?? '');
+    setLastDiceRoll(next.lastDiceRoll ?? null);
+    setLastRoll(null);
+    setDiceLog([]);
+  };
+
+  const requestFork = (turn: number) => {
+    setShowHistory(false);
+    setShowGameOverModal(false);
+    setConfirmation({
+      isOpen: true,
+      title: `Fork from Turn ${turn}?`,
+      message: 'A new branch of this adventure will start from this turn. The current run is kept and stays in your adventure list.',
+      confirmText: 'Fork',
+      cancelText: 'Cancel',
+      type: 'fork',
+      onConfirm: async () => {
+        setConfirmation(prev => ({ ...prev, isOpen: false }));
+        if (!state.id) return;
+
+        try {
+          const { adventure, turns } = await AdventureAPI.forkAdventure(state.id, turn);
+          loadAdventure(AdventureAPI.adventureToGameState(adventure, turns));
+        } catch (error) {
+          console.error('Failed to fork adventure:', error);
+        }
+      }
+    });
+  };
+
+  const requestRewind = (turn: number) => {
+    setShowHistory(false);
+    setShowGameOverModal(false);
+    setConfirmation({
+      isOpen: true,
+      title: `Rewind to Turn ${turn}?`,
+      message: 'Everything that happened after this turn will be erased, and your character will be as they were then.',
+      confirmText: 'Rewind',
+      cancelText: 'Cancel',
+      type: 'rewind',
+      onConfirm: async () => {
+        setConfirmation(prev => ({ ...prev, isOpen: false }));
+        if (!state.id) return;
+
+        try {
+          const { adventure, turns } = await AdventureAPI.rewindAdventure(state.id, turn);
+          loadAdventure(AdventureAPI.adventureToGameState(adventure, turns));
+        } catch (error) {
+          console.error('Failed to rewind adventure:', error);
+        }
+      }
+    });
+  };
+
   const requestMainMenu = () => {
     setShowLore(false);
     setShowGameOverModal(false);
@@ -330,6 +511,34 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
     });
   };
 
+  // Equip or unequip an item. Saved adventures persist it; trial games keep it locally.
+  const handleEquip = async (slot: EquipmentSlot, itemName: string | null) => {
+    if (isAuthenticated && state.id) {
+      try {
+        const equipment = await AdventureAPI.equipItem(state.id, slot, itemName);
+        setState(prev => ({ ...prev, equipment }));
+      } catch (error) {
+        console.error('Failed to update equipment:', error);
+      }
+      return;
+    }
+
+    setState(prev => {
+      const others = Object.fromEntries(
+        Object.entries(prev.equipment).filter(([, name]) => name !== itemName)
+      );
+      return { ...prev, equipment: normalizeEquipment({ ...others, [slot]: itemName ?? undefined }, prev.inventory) };
+    });
+  };
+
+  const equippedSlot = (item: InventoryItem) =>
+    (Object.keys(state.equipment) as EquipmentSlot[]).find(slot => state.equipment[slot] === item.name);
+
+  const damageReduction = sumBonuses(getEquipmentBonuses(state.equipment, state.inventory).damageReduction);
+
+  const progress = getCharacterProgress(state.class, state.abilities, state.xp);
+  const nextLevelXp = xpForNextLevel(progress.level);
+
   return (
     <div className="flex-1 w-full h-full flex flex-col md:flex-row overflow-hidden relative transition-all duration-700 animate-in fade-in">
 
@@ -364,11 +573,17 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
           <GameHeader
             turn={state.turn}
             maxTurns={state.maxTurns}
+            level={state.level}
+            act={state.act}
             hp={state.hp}
+            maxHp={state.maxHp}
             gold={state.gold}
+            conditions={state.conditions}
             onShowLore={() => setShowLore(true)}
             onShowInventory={() => setShowInventory(true)}
-          />
+          >
+            {state.encounter && <EncounterPanel encounter={state.encounter} />}
+          </GameHeader>
 
           {/* Bottom Controls (Mobile & Desktop) */}
           <div className="absolute bottom-0 left-0 right-0 p-4 z-30 flex flex-col gap-2">
@@ -383,7 +598,7 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
                     setShowGameOverModal(true);
                     if (!epilogue && !epilogueLoading) {
                       setEpilogueLoading(true);
-                      const result = await API.generateEpilogue(state.history, state);
+                      const result = await API.generateEpilogue(state.history, state, isAuthenticated ? state.id : undefined);
                       setEpilogue(result);
                       setEpilogueLoading(false);
                     }
@@ -433,7 +648,7 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
                   onChange={(e) => setInput(e.target.value)}
                   onKeyDown={(e) => e.key === 'Enter' && handleInputSubmit()}
                   className="glass-input w-full rounded-lg px-3 py-2.5 md:py-3 text-xs md:text-base text-white focus:outline-none shadow-lg"
-                  placeholder="Or type your action..."
+                  placeholder="Or type your action... (/roll 2d6 for dice)"
                   autoComplete="off"
                 />
                 <button onClick={handleInputSubmit} className="absolute right-1.5 md:right-2 p-1 text-white/80 hover:text-white hover:scale-110 transition-transform">
@@ -462,20 +677,23 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
               dangerouslySetInnerHTML={{
                 __html: (lastDiceRoll && lastAction)
                   ? `<span class="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] md:text-xs font-bold mr-2 align-middle ${
-                      lastDiceRoll === 20 ? 'bg-gold/20 text-gold border border-gold/30' :
-                      lastDiceRoll === 1 ? 'bg-blood/20 text-blood border border-blood/30' :
-                      lastDiceRoll >= 15 ? 'bg-green-500/20 text-green-400 border border-green-500/30' :
-                      lastDiceRoll >= 8 ? 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/30' :
-                      'bg-red-500/20 text-red-400 border border-red-500/30'
+                      ROLL_OUTCOME_STYLES[lastRoll?.outcome ?? getRollOutcome(lastDiceRoll, lastDiceRoll)]
                     }"><span>🎲</span><span>${lastDiceRoll}</span></span>${narrative.replace(/^<p>/, '<p style="display:inline;">')}`
                   : narrative
               }}
             />
+            {lastRoll && lastAction && <RollBreakdown roll={lastRoll} />}
           </div>
+
+          {/* Player dice commands */}
+          {diceLog.map(roll => (
+            <p key={roll.seed} className="text-[10px] md:text-xs font-body text-gold/80">🎲 {formatDiceRoll(roll)}</p>
+          ))}
+          {diceError && <p className="text-[10px] md:text-xs font-body text-red-400">🎲 {diceError}</p>}
         </div>
 
         {/* Dice Overlay */}
-        <DiceRoller rolling={isRolling} onRollComplete={onRollComplete} />
+        <DiceRoller rolling={isRolling} dice={rolledDice} pendingSides={pendingSides} onRollComplete={onRollComplete} />
       </main>
 
       {/* GAME OVER / VICTORY OVERLAY */}
@@ -495,12 +713,14 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
                 >
                   <LogIn className="w-4 h-4" /> Sign Up to Continue
                 </button>
-                <button
-                  onClick={requestRestart}
-                  className="w-full py-3.5 rounded-xl bg-transparent border border-gold/50 text-gold hover:text-white hover:border-gold font-bold text-sm transition-all flex items-center justify-center gap-2"
-                >
-                  <RotateCcw className="w-4 h-4" /> Restart (New Story)
-                </button>
+                {canRestart && (
+                  <button
+                    onClick={requestRestart}
+                    className="w-full py-3.5 rounded-xl bg-transparent border border-gold/50 text-gold hover:text-white hover:border-gold font-bold text-sm transition-all flex items-center justify-center gap-2"
+                  >
+                    <RotateCcw className="w-4 h-4" /> Restart (New Story)
+                  </button>
+                )}
                 <button
                   onClick={requestMainMenu}
                   className="w-full py-3.5 rounded-xl bg-transparent border border-gray-600 text-gray-400 hover:text-white hover:border-white font-bold text-sm transition-all flex items-center justify-center gap-2"
@@ -539,12 +759,26 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
               )}
               
               <div className="space-y-3">
-                <button
-                  onClick={requestRestart}
-                  className="w-full py-3.5 rounded-xl bg-gradient-to-r from-blood to-red-900 text-white font-bold text-sm transition-transform active:scale-95 shadow-lg flex items-center justify-center gap-2"
-                >
-                  <RefreshCw className="w-4 h-4" /> Resurrect (Retry)
-                </button>
+                {canRestart ? (
+                  <button
+                    onClick={requestRestart}
+                    className="w-full py-3.5 rounded-xl bg-gradient-to-r from-blood to-red-900 text-white font-bold text-sm transition-transform active:scale-95 shadow-lg flex items-center justify-center gap-2"
+                  >
+                    <RefreshCw className="w-4 h-4" /> Resurrect (Retry)
+                  </button>
+                ) : (
+                  <p className="text-blood/80 text-[10px] uppercase tracking-widest font-bold">Hardcore - this fate cannot be undone</p>
+                )}
+                {canRewind && (
+                  <button
+                    onClick={() => { setShowGameOverModal(false); setShowHistory(true); }}
+                    className="w-full py-3.5 rounded-xl bg-transparent border border-mystic/50 text-mystic hover:text-white hover:border-mystic font-bold text-sm transition-all flex items-center justify-center gap-2"
+                  >
+                    <History className="w-4 h-4" /> Rewind to an Earlier Turn
+                  </button>
+                )}
+                {isAuthenticated && state.id && <StorybookExport adventureId={state.id} />}
+                {isAuthenticated && state.id && <ShareAdventure adventureId={state.id} />}
                 <button
                   onClick={requestMainMenu}
                   className="w-full py-3.5 rounded-xl bg-transparent border border-gray-600 text-gray-400 hover:text-white hover:border-white font-bold text-sm transition-all flex items-center justify-center gap-2"
@@ -584,6 +818,41 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
                 <h3 className="text-[10px] md:text-xs uppercase tracking-widest text-gray-500 mb-1 font-bold">Race</h3>
                 <p className="text-sm md:text-lg text-mystic">{state.race}</p>
               </div>
+              <div>
+                <h3 className="text-[10px] md:text-xs uppercase tracking-widest text-gray-500 mb-1 font-bold">Health</h3>
+                <p className="text-sm md:text-lg text-red-400 font-bold">{state.hp} / {state.maxHp}</p>
+              </div>
+              <div>
+                <h3 className="text-[10px] md:text-xs uppercase tracking-widest text-gray-500 mb-1 font-bold">Gold</h3>
+                <p className="text-sm md:text-lg text-gold font-bold">{state.gold}</p>
+              </div>
+              <div className="col-span-2">
+                <h3 className="text-[10px] md:text-xs uppercase tracking-widest text-gray-500 mb-1 font-bold">Level {progress.level}</h3>
+                <p className="text-xs md:text-sm text-gray-300">
+                  {progress.xp} XP{nextLevelXp !== null ? ` / ${nextLevelXp} to next level` : ' (max level)'}
+                </p>
+              </div>
+            </div>
+
+            {/* Ability Scores */}
+            <div>
+              <h3 className="text-xs md:text-sm uppercase tracking-widest text-gray-400 mb-3 font-bold">Abilities</h3>
+              <div className="grid grid-cols-6 gap-1.5 md:gap-3">
+                {abilityNames.map(ability => (
+                  <div key={ability} className="flex flex-col items-center bg-white/5 border border-white/10 rounded-lg py-2" title={ABILITY_LABELS[ability]}>
+                    <span className="text-[9px] md:text-[10px] uppercase text-gray-500 font-bold">{ability}</span>
+                    <span className="text-sm md:text-lg text-white font-bold">{state.abilities[ability]}</span>
+                    <span className="text-[9px] md:text-xs text-mystic">{formatModifier(abilityModifier(state.abilities[ability]))}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-1.5 mt-3">
+                {Object.entries(progress.skills).map(([category, total]) => (
+                  <span key={category} className="px-2 py-1 rounded bg-white/5 border border-white/10 text-[10px] md:text-xs text-gray-300 capitalize">
+                    {category} {formatModifier(total)}
+                  </span>
+                ))}
+              </div>
             </div>
             
             {/* Class & Race Bonuses */}
@@ -606,6 +875,9 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
                   <div className="bg-gold/10 border border-gold/30 rounded-lg p-3">
                     <p className="text-xs text-gold font-bold mb-1">
                       {state.race} - {RACES[state.race as keyof typeof RACES].trait}
+                      {state.traitsUsed.includes(RACES[state.race as keyof typeof RACES].trait) && (
+                        <span className="text-gray-500 font-normal"> (used)</span>
+                      )}
                     </p>
                     <p className="text-[10px] md:text-xs text-gray-400">
                       {RACES[state.race as keyof typeof RACES].bonus}
@@ -617,17 +889,70 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
             
             {/* Inventory */}
             <div>
-              <h3 className="text-xs md:text-sm uppercase tracking-widest text-gold mb-3 font-bold">Inventory</h3>
-              <ul className="space-y-2 md:space-y-3">
-                {state.inventory.length > 0 ? state.inventory.map((item, idx) => (
-                  <li key={idx} className="flex items-center gap-3 bg-white/5 p-2 md:p-3 rounded-lg border border-white/10 text-xs md:text-base">
-                    <div className="w-1.5 h-1.5 md:w-2 md:h-2 bg-gold rounded-full shadow-[0_0_5px_rgba(251,191,36,0.5)]"></div>
-                    <span className="text-gray-300">{item}</span>
-                  </li>
-                )) : (
-                  <li className="italic text-gray-600 text-xs md:text-base">Empty...</li>
+              <h3 className="text-xs md:text-sm uppercase tracking-widest text-gold mb-3 font-bold flex justify-between">
+                <span>Inventory</span>
+                {damageReduction > 0 && (
+                  <span className="text-[10px] md:text-xs text-gray-400 normal-case tracking-normal">Damage reduction {damageReduction}</span>
                 )}
-              </ul>
+              </h3>
+              {state.inventory.length > 0 ? (
+                <div className="space-y-4">
+                  {groupInventory(state.inventory).map(group => (
+                    <div key={group.category}>
+                      <h4 className="text-[10px] md:text-xs uppercase tracking-widest text-gray-500 mb-2 font-bold">
+                        {ITEM_CATEGORY_LABELS[group.category]}
+                      </h4>
+                      <ul className="space-y-2 md:space-y-3">
+                        {group.items.map(item => (
+                          <li key={item.name} className="flex items-start gap-3 bg-white/5 p-2 md:p-3 rounded-lg border border-white/10 text-xs md:text-base">
+                            <div className="w-1.5 h-1.5 md:w-2 md:h-2 mt-1.5 bg-gold rounded-full shadow-[0_0_5px_rgba(251,191,36,0.5)] flex-shrink-0"></div>
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center gap-2">
+                                <span className="text-gray-300">{item.name}</span>
+                                {item.quantity > 1 && (
+                                  <span className="text-[10px] md:text-xs text-gold font-bold">x{item.quantity}</span>
+                                )}
+                              </div>
+                              {item.description && (
+                                <p className="text-[10px] md:text-xs text-gray-500 mt-0.5">{item.description}</p>
+                              )}
+                              {slotsForItem(item).length > 0 && (
+                                <div className="flex flex-wrap gap-1.5 mt-1.5">
+                                  {equippedSlot(item) ? (
+                                    <button
+                                      onClick={() => handleEquip(equippedSlot(item)!, null)}
+                                      className="px-2 py-0.5 rounded bg-mystic/20 border border-mystic/50 text-[10px] text-white font-bold hover:bg-mystic/30 transition-colors"
+                                    >
+                                      Equipped: {EQUIPMENT_SLOT_LABELS[equippedSlot(item)!]} ✕
+                                    </button>
+                                  ) : slotsForItem(item).map(slot => (
+                                    <button
+                                      key={slot}
+                                      onClick={() => handleEquip(slot, item.name)}
+                                      className="px-2 py-0.5 rounded border border-white/10 text-[10px] text-gray-400 hover:text-white hover:border-mystic/50 transition-colors"
+                                    >
+                                      Equip {EQUIPMENT_SLOT_LABELS[slot]}
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
+                              {item.effect && (
+                                <p className="text-[10px] md:text-xs text-mystic mt-0.5">
+                                  {item.effect.kind === 'heal' && `Heals ${item.effect.value} HP`}
+                                  {item.effect.kind === 'bonus' && `+${item.effect.value} to ${item.effect.skill ?? 'checks'}`}
+                                  {item.effect.kind === 'damage_reduction' && `Reduces damage by ${item.effect.value}`}
+                                </p>
+                              )}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="italic text-gray-600 text-xs md:text-base">Empty...</p>
+              )}
             </div>
           </div>
         </div>
@@ -653,6 +978,22 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
                 {state.endgame?.character_backstory || "A stranger from distant lands..."}
               </p>
             </div>
+            {/* Acts are revealed as the story reaches them */}
+            {state.endgame && (
+              <div>
+                <h3 className="text-xs md:text-sm uppercase tracking-widest text-gold mb-2 font-bold">The Tale So Far</h3>
+                <div className="space-y-2 border-l-2 border-white/10 pl-3 md:pl-4">
+                  {([1, 2, 3] as const).map(act => (
+                    <p key={act} className="text-sm md:text-base font-story leading-relaxed">
+                      <span className={`font-fantasy mr-2 ${act === state.act ? 'text-gold' : 'text-gray-500'}`}>{ACT_LABELS[act]}</span>
+                      {act <= state.act
+                        ? <span className="text-gray-300 italic">{state.endgame?.[`act${act}`]}</span>
+                        : <span className="text-gray-600 italic">Not yet written...</span>}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            )}
             <div>
               <h3 className="text-xs md:text-sm uppercase tracking-widest text-gray-500 mb-2 font-bold">Seeds of Fate</h3>
               <p className="text-xs md:text-base text-gray-400 font-mono tracking-wide">
@@ -661,12 +1002,24 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
             </div>
 
             <div className="pt-6 border-t border-gray-800 space-y-3">
-              <button
-                onClick={requestRestart}
-                className="w-full py-3 md:py-4 rounded-lg bg-mystic/10 border border-mystic/30 text-mystic hover:bg-mystic/20 hover:text-white text-xs md:text-base font-bold transition-all flex items-center justify-center gap-2"
-              >
-                <RotateCcw className="w-4 h-4 md:w-5 md:h-5" /> Restart Chapter
-              </button>
+              {canRestart && (
+                <button
+                  onClick={requestRestart}
+                  className="w-full py-3 md:py-4 rounded-lg bg-mystic/10 border border-mystic/30 text-mystic hover:bg-mystic/20 hover:text-white text-xs md:text-base font-bold transition-all flex items-center justify-center gap-2"
+                >
+                  <RotateCcw className="w-4 h-4 md:w-5 md:h-5" /> Restart Chapter
+                </button>
+              )}
+              {canRewind && (
+                <button
+                  onClick={() => { setShowLore(false); setShowHistory(true); }}
+                  className="w-full py-3 md:py-4 rounded-lg bg-transparent border border-mystic/30 text-mystic hover:bg-mystic/10 hover:text-white text-xs md:text-base font-bold transition-all flex items-center justify-center gap-2"
+                >
+                  <History className="w-4 h-4 md:w-5 md:h-5" /> Turn History
+                </button>
+              )}
+              {isAuthenticated && state.id && <StorybookExport adventureId={state.id} />}
+              {isAuthenticated && state.id && <ShareAdventure adventureId={state.id} />}
               <button
                 onClick={requestMainMenu}
                 className="w-full py-3 md:py-4 rounded-lg bg-transparent border border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 text-xs md:text-base font-bold transition-all flex items-center justify-center gap-2"
@@ -686,6 +1039,44 @@ export function GameScreen({ initialState, onReset, isAuthenticated = false }: G
         </div>
       )}
 
+      {/* TURN HISTORY MODAL */}
+      {showHistory && (
+        <div className="absolute inset-0 z-40 bg-black/95 p-6 md:p-10 flex flex-col backdrop-blur-xl no-scrollbar">
+          <div className="flex justify-between items-center mb-6 border-b border-gray-800 pb-3">
+            <h2 className="font-fantasy text-xl md:text-3xl text-mystic">Turn History</h2>
+            <button onClick={() => setShowHistory(false)} className="text-white"><X className="w-5 h-5 md:w-6 md:h-6" /></button>
+          </div>
+          <ol className="overflow-y-auto space-y-2 max-h-[80vh] no-scrollbar">
+            {state.history
+              .filter(entry => entry.role === 'user')
+              .map((entry, idx) => ({ turn: idx + 1, action: entry.parts[0].text }))
+              .reverse()
+              .map(({ turn, action }) => (
+                <li key={turn} className="flex items-center gap-3 p-3 bg-black/30 border border-white/10 rounded-lg">
+                  <span className="text-[10px] font-bold text-gray-500 w-14 flex-shrink-0">Turn {turn}</span>
+                  <span className="flex-1 min-w-0 text-xs md:text-sm text-gray-300 truncate">{turn === 1 ? 'Prologue' : action}</span>
+                  <button
+                    onClick={() => requestFork(turn)}
+                    className="flex items-center gap-1 text-[10px] font-bold text-gray-400 hover:text-white uppercase tracking-wide flex-shrink-0"
+                  >
+                    <GitBranch className="w-3 h-3" /> Fork
+                  </button>
+                  {turn < state.turn ? (
+                    <button
+                      onClick={() => requestRewind(turn)}
+                      className="flex items-center gap-1 text-[10px] font-bold text-mystic hover:text-white uppercase tracking-wide flex-shrink-0"
+                    >
+                      <History className="w-3 h-3" /> Rewind here
+                    </button>
+                  ) : (
+                    <span className="text-[10px] font-bold text-gold uppercase tracking-wide flex-shrink-0">Current</span>
+                  )}
+                </li>
+              ))}
+          </ol>
+        </div>
+      )}
+
       {/* CONFIRMATION MODAL */}
       {confirmation.isOpen && (
         <div className="absolute inset-0 z-[60] flex items-center justify-center bg-black/90 backdrop-blur-sm fade-in p-4">
@@ -0,0 +1,34 @@
+import React from 'react';
+import { formatRollBreakdown, type RollRecord } from '@shared/dice';
+
+interface RollBreakdownProps {
+  roll: RollRecord;
+}
+
+// How the server reached a roll's outcome: "12 + 3 stealth = 15 vs DC 13: Success", the
+// named parts of the modifier, what granted advantage or disadvantage and any trait that fired
+export function RollBreakdown({ roll }: RollBreakdownProps) {
+  const bonuses = roll.bonuses ?? [];
+
+  return (
+    <div className="text-[10px] md:text-xs text-gray-500 font-body space-y-0.5">
+      <p className="text-gray-400">
+        {roll.rerolled !== undefined && <span className="line-through opacity-50 mr-1">{roll.rerolled}</span>}
+        {formatRollBreakdown(roll)}
+      </p>
+      {bonuses.length > 0 && (
+        <p>
+          {bonuses.map(bonus => `${bonus.source} ${bonus.value < 0 ? '' : '+'}${bonus.value}`).join(' · ')}
+        </p>
+      )}
+      {roll.mode && roll.modeSources && roll.modeSources.length > 0 && (
+        <p className={roll.mode === 'advantage' ? 'text-emerald-400/80' : 'text-red-400/80'}>
+          {roll.mode === 'advantage' ? 'Advantage' : 'Disadvantage'}: {roll.modeSources.join(', ')}
+        </p>
+      )}
+      {roll.traits?.map(trait => (
+        <p key={trait} className="text-mystic/80">{trait}</p>
+      ))}
+    </div>
+  );
+}
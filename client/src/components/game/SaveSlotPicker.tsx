@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { Crown, Loader2, Play, Plus, Trash2, Pencil, Check, X, LogOut } from 'lucide-react';
+import { Adventure, AdventureAPI, GameState } from '@/lib/game-engine';
+import { MAX_SLOT_NAME_LENGTH, slotLabel } from '@shared/save-slots';
+import { DIFFICULTY_SETTINGS } from '@shared/difficulty';
+import { ACT_LABELS, parseAct } from '@shared/acts';
+
+export interface SaveSlots {
+  slots: Adventure[];
+  currentAdventureId: string | null;
+  limit: number;
+}
+
+interface SaveSlotPickerProps {
+  initialSlots: SaveSlots;
+  onResume: (state: GameState) => void;
+  onNewAdventure: () => void;
+}
+
+// Launch screen for signed-in players with adventures in play: pick which one to continue
+export function SaveSlotPicker({ initialSlots, onResume, onNewAdventure }: SaveSlotPickerProps) {
+  const [data, setData] = useState<SaveSlots>(initialSlots);
+  const [error, setError] = useState<string | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const handleResume = async (adventure: Adventure) => {
+    setLoadingId(adventure.id);
+    setError(null);
+    try {
+      const { adventure: fullAdventure, turns } = await AdventureAPI.resumeAdventure(adventure.id);
+      const state = AdventureAPI.adventureToGameState(fullAdventure, turns);
+
+      // Don't resume adventures whose campaign never finished generating
+      if (fullAdventure.campaignData?.title && state.endgame && state.name) {
+        onResume(state);
+      } else {
+        setError('This save is incomplete and cannot be continued.');
+      }
+    } catch (err) {
+      console.error('Failed to resume adventure:', err);
+      setError('Could not load that adventure.');
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  const startRename = (adventure: Adventure) => {
+    setRenamingId(adventure.id);
+    setRenameValue(slotLabel(adventure));
+  };
+
+  const handleRename = async (adventure: Adventure) => {
+    setRenamingId(null);
+    const slotName = renameValue.trim() === adventure.characterName ? null : renameValue.trim() || null;
+    if (slotName === adventure.slotName) return;
+
+    try {
+      const updated = await AdventureAPI.updateAdventure(adventure.id, { slotName });
+      setData(prev => ({
+        ...prev,
+        slots: prev.slots.map(slot => slot.id === adventure.id ? { ...slot, slotName: updated.slotName } : slot),
+      }));
+    } catch (err) {
+      console.error('Failed to rename save slot:', err);
+    }
+  };
+
+  const handleDelete = async (adventure: Adventure) => {
+    if (!confirm(`Delete "${slotLabel(adventure)}"? This cannot be undone.`)) return;
+    try {
+      await AdventureAPI.deleteAdventure(adventure.id);
+      setData(prev => ({
+        ...prev,
+        slots: prev.slots.filter(slot => slot.id !== adventure.id),
+        currentAdventureId: prev.currentAdventureId === adventure.id ? null : prev.currentAdventureId,
+      }));
+    } catch (err) {
+      console.error('Failed to delete adventure:', err);
+    }
+  };
+
+  const slotsFull = data.slots.length >= data.limit;
+  const emptySlots = Math.max(0, data.limit - data.slots.length);
+
+  return (
+    <div className="h-screen w-full overflow-y-auto bg-[url('https://images.unsplash.com/photo-1519074069444-1ba4fff66d16?q=80&w=2574')] bg-cover bg-center relative">
+      <div className="min-h-full flex items-center justify-center p-4">
+        <div className="absolute inset-0 bg-black/85 backdrop-blur-sm fixed"></div>
+
+        <button
+          onClick={() => { window.location.href = '/api/logout'; }}
+          className="fixed top-6 right-6 z-50 p-3 bg-void-light/80 backdrop-blur-md border border-red-500/30 rounded-full text-red-400 hover:text-white hover:border-red-500 hover:bg-red-500/20 transition-all duration-300 shadow-lg"
+          title="Sign Out"
+        >
+          <LogOut className="w-5 h-5" />
+        </button>
+
+        <div className="relative w-full max-w-xl bg-void-light/95 backdrop-blur-xl rounded-2xl p-6 md:p-8 border border-white/10 shadow-2xl my-auto">
+          <div className="text-center mb-6">
+            <Crown className="w-10 h-10 text-gold mx-auto mb-3" />
+            <h1 className="font-fantasy text-3xl text-transparent bg-clip-text bg-gradient-to-r from-gold to-yellow-600 mb-1">GemRPG</h1>
+            <p className="text-gray-400 text-[10px] tracking-[0.2em] uppercase">
+              Save Slots {data.slots.length} / {data.limit}
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-xs text-red-400 text-center">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {data.slots.map(adventure => {
+              const isCurrent = adventure.id === data.currentAdventureId;
+              return (
+                <div
+                  key={adventure.id}
+                  className={`p-4 bg-black/30 border rounded-lg transition-all ${isCurrent ? 'border-gold/50' : 'border-mystic/30'}`}
+                >
+                  <div className="flex justify-between items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      {renamingId === adventure.id ? (
+                        <div className="flex items-center gap-2 mb-1">
+                          <input
+                            autoFocus
+                            value={renameValue}
+                            maxLength={MAX_SLOT_NAME_LENGTH}
+                            onChange={(e) => setRenameValue(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') handleRename(adventure);
+                              if (e.key === 'Escape') setRenamingId(null);
+                            }}
+                            className="flex-1 min-w-0 bg-black/50 border border-gray-700 rounded px-2 py-1 text-sm text-white focus:border-mystic outline-none"
+                          />
+                          <button onClick={() => handleRename(adventure)} className="text-green-400 hover:text-white" title="Save">
+                            <Check className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => setRenamingId(null)} className="text-gray-500 hover:text-white" title="Cancel">
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="font-bold text-white truncate">{slotLabel(adventure)}</span>
+                          {isCurrent && (
+                            <span className="text-[10px] px-1.5 py-0.5 rounded uppercase font-bold bg-gold/20 text-gold">Current</span>
+                          )}
+                          {adventure.difficulty !== 'standard' && (
+                            <span className={`text-[10px] px-1.5 py-0.5 rounded uppercase font-bold ${
+                              adventure.difficulty === 'hardcore' ? 'bg-blood/20 text-blood' : 'bg-mystic/20 text-mystic'
+                            }`}>
+                              {DIFFICULTY_SETTINGS[adventure.difficulty]?.label ?? adventure.difficulty}
+                            </span>
+                          )}
+                          <button onClick={() => startRename(adventure)} className="text-gray-500 hover:text-white flex-shrink-0" title="Rename">
+                            <Pencil className="w-3 h-3" />
+                          </button>
+                        </div>
+                      )}
+                      <p className="text-xs text-gray-400 truncate">
+                        {adventure.slotName ? `${adventure.characterName} • ` : ''}{adventure.characterRace} {adventure.characterClass} • Level {adventure.level} • Turn {adventure.turnCount} • {ACT_LABELS[parseAct(adventure.currentAct)]}
+                      </p>
+                      {adventure.campaignTitle && (
+                        <p className="text-xs text-mystic/70 truncate mt-1 italic">
+                          {adventure.campaignTitle}
+                        </p>
+                      )}
+                      <p className="text-[10px] text-gray-600 mt-1">
+                        {new Date(adventure.lastPlayedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {loadingId === adventure.id ? (
+                        <Loader2 className="w-4 h-4 text-mystic animate-spin" />
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => handleDelete(adventure)}
+                            className="p-1.5 text-gray-500 hover:text-red-400 transition-colors"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleResume(adventure)}
+                            disabled={loadingId !== null}
+                            className="p-1.5 text-mystic hover:text-white transition-colors disabled:opacity-50"
+                            title="Continue"
+                          >
+                            <Play className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+
+            {Array.from({ length: emptySlots }, (_, index) => (
+              <button
+                key={`empty-${index}`}
+                onClick={onNewAdventure}
+                className="w-full p-4 border border-dashed border-white/10 rounded-lg text-xs text-gray-500 hover:text-white hover:border-mystic/50 transition-all flex items-center justify-center gap-2"
+              >
+                <Plus className="w-4 h-4" /> Empty Slot - Start New Adventure
+              </button>
+            ))}
+
+            {slotsFull && (
+              <p className="text-center text-xs text-gray-500 pt-2">
+                All {data.limit} save slots are in use. Finish or delete an adventure to start another.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Share2, Copy, Check, Link2Off, Loader2 } from 'lucide-react';
+import { AdventureAPI } from '@/lib/game-engine';
+
+interface ShareAdventureProps {
+  adventureId: string;
+}
+
+// Public read-only link to the adventure; sharing again returns the same link until it is revoked
+export function ShareAdventure({ adventureId }: ShareAdventureProps) {
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleShare = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { path } = await AdventureAPI.shareAdventure(adventureId);
+      setShareUrl(`${window.location.origin}${path}`);
+    } catch (err) {
+      console.error('Failed to share adventure:', err);
+      setError('Could not create a share link.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy share link:', err);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!confirm('Revoke this link? Anyone who has it will no longer be able to view the adventure.')) return;
+    setLoading(true);
+    setError(null);
+    try {
+      await AdventureAPI.revokeShare(adventureId);
+      setShareUrl(null);
+    } catch (err) {
+      console.error('Failed to revoke share link:', err);
+      setError('Could not revoke the share link.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="flex items-center justify-center gap-1.5 text-[10px] font-bold text-gray-500 uppercase tracking-widest">
+        <Share2 className="w-3 h-3" /> Share Adventure
+      </span>
+      {shareUrl ? (
+        <div className="flex gap-2">
+          <input
+            readOnly
+            value={shareUrl}
+            onFocus={(e) => e.target.select()}
+            className="flex-1 min-w-0 bg-black/50 border border-gray-700 rounded-lg px-2 py-2 text-xs text-gray-300 outline-none"
+          />
+          <button
+            onClick={handleCopy}
+            className="px-3 rounded-lg border border-gold/30 text-gold hover:bg-gold/10 hover:text-white transition-all"
+            title="Copy Link"
+          >
+            {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={handleRevoke}
+            disabled={loading}
+            className="px-3 rounded-lg border border-red-500/30 text-red-400 hover:bg-red-500/10 hover:text-white transition-all disabled:opacity-50"
+            title="Revoke Link"
+          >
+            <Link2Off className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={handleShare}
+          disabled={loading}
+          className="py-2 rounded-lg border border-gold/30 text-gold hover:bg-gold/10 hover:text-white text-xs font-bold transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Create Share Link'}
+        </button>
+      )}
+      {error && <p className="text-[10px] text-red-400 text-center">{error}</p>}
+    </div>
+  );
+}
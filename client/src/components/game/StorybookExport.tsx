@@ -0,0 +1,36 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { AdventureAPI, StorybookFormat } from '@/lib/game-engine';
+
+interface StorybookExportProps {
+  adventureId: string;
+}
+
+const FORMATS: { format: StorybookFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'epub', label: 'EPUB' },
+];
+
+// Download links for the whole adventure as an illustrated storybook
+export function StorybookExport({ adventureId }: StorybookExportProps) {
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="flex items-center justify-center gap-1.5 text-[10px] font-bold text-gray-500 uppercase tracking-widest">
+        <Download className="w-3 h-3" /> Export Storybook
+      </span>
+      <div className="flex gap-2">
+        {FORMATS.map(({ format, label }) => (
+          <a
+            key={format}
+            href={AdventureAPI.exportUrl(adventureId, format)}
+            download
+            className="flex-1 py-2 rounded-lg border border-gold/30 text-gold hover:bg-gold/10 hover:text-white text-xs font-bold text-center transition-all"
+          >
+            {label}
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+}
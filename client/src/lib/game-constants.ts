@@ -1,20 +1,20 @@
-import { SKILL_CATEGORIES, CLASS_BONUSES, RACE_BONUSES, getCharacterBonuses } from '@shared/game-bonuses';
+import { SKILL_CATEGORIES, CLASS_BONUSES, CLASS_MAX_HP, CLASS_STARTING_ITEMS, RACE_BONUSES, getCharacterBonuses } from '@shared/game-bonuses';
 
 export { SKILL_CATEGORIES, CLASS_BONUSES, RACE_BONUSES, getCharacterBonuses };
 
 export const CLASSES = {
-  'Warrior': { hp: 30, items: ['Greatsword', 'Chainmail', 'Potion'], ...CLASS_BONUSES['Warrior'] },
-  'Paladin': { hp: 28, items: ['Longsword', 'Shield', 'Holy Symbol'], ...CLASS_BONUSES['Paladin'] },
-  'Barbarian': { hp: 35, items: ['Greataxe', 'Handaxe', 'Javelins'], ...CLASS_BONUSES['Barbarian'] },
-  'Ranger': { hp: 26, items: ['Longbow', 'Shortswords', 'Cloak'], ...CLASS_BONUSES['Ranger'] },
-  'Rogue': { hp: 20, items: ['Daggers', 'Cloak', 'Lockpicks'], ...CLASS_BONUSES['Rogue'] },
-  'Mage': { hp: 16, items: ['Staff', 'Robes', 'Tome'], ...CLASS_BONUSES['Mage'] },
-  'Sorcerer': { hp: 18, items: ['Arcane Focus', 'Dagger', 'Robes'], ...CLASS_BONUSES['Sorcerer'] },
-  'Warlock': { hp: 20, items: ['Dagger', 'Eldritch Eye', 'Leather Armor'], ...CLASS_BONUSES['Warlock'] },
-  'Cleric': { hp: 24, items: ['Mace', 'Shield', 'Holy Symbol'], ...CLASS_BONUSES['Cleric'] },
-  'Druid': { hp: 24, items: ['Scimitar', 'Wooden Shield', 'Holly'], ...CLASS_BONUSES['Druid'] },
-  'Bard': { hp: 22, items: ['Lute', 'Rapier', 'Dagger'], ...CLASS_BONUSES['Bard'] },
-  'Monk': { hp: 24, items: ['Staff', 'Darts', 'Meditation Beads'], ...CLASS_BONUSES['Monk'] }
+  'Warrior': { hp: CLASS_MAX_HP['Warrior'], items: CLASS_STARTING_ITEMS['Warrior'], ...CLASS_BONUSES['Warrior'] },
+  'Paladin': { hp: CLASS_MAX_HP['Paladin'], items: CLASS_STARTING_ITEMS['Paladin'], ...CLASS_BONUSES['Paladin'] },
+  'Barbarian': { hp: CLASS_MAX_HP['Barbarian'], items: CLASS_STARTING_ITEMS['Barbarian'], ...CLASS_BONUSES['Barbarian'] },
+  'Ranger': { hp: CLASS_MAX_HP['Ranger'], items: CLASS_STARTING_ITEMS['Ranger'], ...CLASS_BONUSES['Ranger'] },
+  'Rogue': { hp: CLASS_MAX_HP['Rogue'], items: CLASS_STARTING_ITEMS['Rogue'], ...CLASS_BONUSES['Rogue'] },
+  'Mage': { hp: CLASS_MAX_HP['Mage'], items: CLASS_STARTING_ITEMS['Mage'], ...CLASS_BONUSES['Mage'] },
+  'Sorcerer': { hp: CLASS_MAX_HP['Sorcerer'], items: CLASS_STARTING_ITEMS['Sorcerer'], ...CLASS_BONUSES['Sorcerer'] },
+  'Warlock': { hp: CLASS_MAX_HP['Warlock'], items: CLASS_STARTING_ITEMS['Warlock'], ...CLASS_BONUSES['Warlock'] },
+  'Cleric': { hp: CLASS_MAX_HP['Cleric'], items: CLASS_STARTING_ITEMS['Cleric'], ...CLASS_BONUSES['Cleric'] },
+  'Druid': { hp: CLASS_MAX_HP['Druid'], items: CLASS_STARTING_ITEMS['Druid'], ...CLASS_BONUSES['Druid'] },
+  'Bard': { hp: CLASS_MAX_HP['Bard'], items: CLASS_STARTING_ITEMS['Bard'], ...CLASS_BONUSES['Bard'] },
+  'Monk': { hp: CLASS_MAX_HP['Monk'], items: CLASS_STARTING_ITEMS['Monk'], ...CLASS_BONUSES['Monk'] }
 } as const;
 
 export type ModifierType = keyof typeof SKILL_CATEGORIES;
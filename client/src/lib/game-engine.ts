@@ -1,4 +1,15 @@
 import { CLASSES, ClassName, RaceName } from "./game-constants";
+import type { RollMode, RollRecord, RollOutcome } from "@shared/dice";
+import type { AbilityScores } from "@shared/progression";
+import { normalizeInventory, type InventoryItem } from "@shared/inventory";
+import { normalizeEquipment, type Equipment, type EquipmentSlot } from "@shared/equipment";
+import { parseEncounter, type Encounter } from "@shared/encounter";
+import { normalizeConditions, type Condition } from "@shared/conditions";
+import type { DiceRollResult } from "@shared/dice-notation";
+import { parseDifficulty, type Difficulty } from "@shared/difficulty";
+import { parseAct, type Act } from "@shared/acts";
+import { parseCampaignLength, type CampaignLength } from "@shared/campaign-length";
+import type { PlanTier } from "@shared/save-slots";
 
 export interface GameState {
   id?: string; // Adventure ID (only for signed-in users)
@@ -12,8 +23,19 @@ export interface GameState {
   characterDescription: string;
   history: HistoryEntry[];
   hp: number;
+  maxHp: number;
+  abilities: AbilityScores;
+  xp: number;
+  level: number;
   gold: number;
-  inventory: string[];
+  inventory: InventoryItem[];
+  equipment: Equipment;
+  encounter: Encounter | null; // Current or just-finished fight
+  conditions: Condition[];
+  traitsUsed: string[]; // Once-per-adventure racial traits already spent
+  difficulty: Difficulty; // Fixed at creation
+  act: Act; // Story act the server has tracked so far
+  campaignLength: CampaignLength; // Fixed at creation
   turn: number;
   maxTurns: number;
   // For resuming - last turn's display data
@@ -45,9 +67,21 @@ export interface TurnResponse {
   visual_prompt?: string;
   hp_current: number;
   gold: number;
-  inventory: string[];
+  inventory: InventoryItem[];
   options: string[];
   game_over: boolean;
+  roll?: RollRecord | null; // Server-rolled d20 for this turn (null for intro/no-roll turns)
+  xp_awarded?: number;
+  // Progress after this turn, computed by the server
+  xp?: number;
+  level?: number;
+  max_hp?: number;
+  leveled_up?: boolean;
+  encounter?: Encounter | null; // Fight state after this turn, including the round just resolved
+  conditions?: Condition[]; // Active conditions after this turn's upkeep
+  traitsUsed?: string[];
+  act?: Act;
+  diceRolls?: DiceRollResult[]; // Notation rolls made this turn (healing items)
 }
 
 export interface EpilogueResponse {
@@ -58,10 +92,33 @@ export interface EpilogueResponse {
   visual_prompt: string;
 }
 
+export type StorybookFormat = 'markdown' | 'html' | 'epub';
+
+// Read-only replay served to anyone with a share link
+export interface SharedAdventure {
+  title: string;
+  byline: string;
+  details: string;
+  backstory: { world: string; hero: string } | null;
+  status: 'active' | 'completed' | 'abandoned';
+  endingType: 'victory' | 'death' | 'limit_reached' | null;
+  coverUrl: string | null;
+  turns: {
+    number: number;
+    act: Act;
+    action: string | null; // Null for the prologue
+    narrative: string;
+    rolls: string[];
+    imageUrl: string | null;
+  }[];
+  epilogue: { title: string; text: string; legacy: string } | null;
+}
+
 // Server-side adventure types
 export interface Adventure {
   id: string;
   userId: string;
+  slotName: string | null; // Save slot name, character name if unset
   characterName: string;
   characterRace: string;
   characterClass: string;
@@ -71,8 +128,22 @@ export interface Adventure {
   campaignData: CampaignData | null;
   themeSeeds: string | null;
   currentHp: number;
+  maxHp: number;
+  abilityScores: AbilityScores;
+  xp: number;
+  level: number;
   gold: number;
-  inventory: string[];
+  inventory: InventoryItem[];
+  equipment: Equipment;
+  encounter: Encounter | null;
+  conditions: Condition[];
+  traitsUsed: string[];
+  difficulty: Difficulty;
+  currentAct: number;
+  campaignLength: CampaignLength;
+  parentAdventureId: string | null; // Set on forks
+  forkedFromTurn: number | null;
+  shareToken: string | null; // Public read-only link, null when not shared
   turnCount: number;
   maxTurns: number;
   status: 'active' | 'completed' | 'abandoned';
@@ -89,15 +160,90 @@ export interface AdventureTurn {
   turnNumber: number;
   playerAction: string;
   diceRoll: number | null;
+  rollSeed: string | null;
+  rollModifier: number | null;
+  rollOutcome: RollOutcome | null;
+  rollSkill: string | null;
+  rollDc: number | null;
+  rollMode: RollMode | null;
+  rollDiscarded: number | null;
+  diceRolls: DiceRollResult[];
   narrative: string;
   visualPrompt: string | null;
   hpAfter: number;
+  xpAfter: number | null;
   goldAfter: number;
-  inventoryAfter: string[];
+  inventoryAfter: InventoryItem[];
+  encounterAfter: Encounter | null;
+  conditionsAfter: Condition[];
+  traitsUsedAfter: string[];
+  actAfter: number;
   options: string[];
   createdAt: string;
 }
 
+// Callbacks for the streaming turn endpoints
+export interface TurnStreamHandlers {
+  onRoll?: (roll: RollRecord) => void;
+  onNarrative?: (text: string) => void; // Newly generated narrative text (append to what came before)
+}
+
+// Read a Server-Sent Events response body, calling onEvent for each complete event with its parsed JSON data
+async function readEventStream(res: Response, onEvent: (event: string, data: unknown) => void): Promise<void> {
+  if (!res.body) {
+    throw new Error('Streaming not supported');
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary >= 0) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).trimStart());
+        }
+      }
+      if (dataLines.length > 0) {
+        onEvent(event, JSON.parse(dataLines.join('\n')));
+      }
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
+
+// Dispatch turn stream events to handlers and resolve with the final 'done' payload
+async function consumeTurnStream<T>(res: Response, handlers: TurnStreamHandlers): Promise<T> {
+  let result: T | undefined;
+  let errorMessage: string | undefined;
+
+  await readEventStream(res, (event, data) => {
+    if (typeof data !== 'object' || data === null) return;
+    const fields = data as Record<string, unknown>;
+    if (event === 'roll') handlers.onRoll?.(data as RollRecord);
+    else if (event === 'narrative' && typeof fields.text === 'string') handlers.onNarrative?.(fields.text);
+    else if (event === 'done') result = data as T;
+    else if (event === 'error' && typeof fields.message === 'string') errorMessage = fields.message;
+  });
+
+  if (result === undefined) {
+    throw new Error(errorMessage || 'Turn stream ended early');
+  }
+  return result;
+}
 
 export const API = {
   // Generate character name via server
@@ -118,7 +264,7 @@ export const API = {
   },
 
   // Generate campaign via server
-  async generateCampaign(context: { name: string; gender: string; race: string; class: string; customInstructions?: string }): Promise<CampaignData> {
+  async generateCampaign(context: { name: string; gender: string; race: string; class: string; customInstructions?: string; campaignLength?: CampaignLength }): Promise<CampaignData> {
     try {
       const res = await fetch('/api/ai/campaign', {
         method: 'POST',
@@ -166,13 +312,13 @@ export const API = {
   },
 
   // Main chat - returns narrative/options via server
-  async chat(history: HistoryEntry[], context: GameState, userInput?: string, diceRoll?: number): Promise<TurnResponse> {
+  async chat(history: HistoryEntry[], context: GameState, userInput?: string): Promise<TurnResponse> {
     try {
       const res = await fetch('/api/ai/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ history, context, userInput, diceRoll })
+        body: JSON.stringify({ history, context, userInput })
       });
       
       if (res.status === 429) {
@@ -213,14 +359,71 @@ export const API = {
     }
   },
 
-  // Image generation via server (optionally saves to adventure if adventureId provided)
-  async generateImage(prompt: string, adventureId?: string): Promise<string | null> {
+  // Streaming chat - narrative text arrives through handlers, resolves with the full turn
+  async chatStream(history: HistoryEntry[], context: GameState, userInput: string | undefined, handlers: TurnStreamHandlers): Promise<TurnResponse> {
+    try {
+      const res = await fetch('/api/ai/chat/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ history, context, userInput })
+      });
+      
+      if (res.status === 403 || res.status === 429) {
+        const data = await res.json();
+        return {
+          narrative: data.narrative || data.message || "Your free trial has ended.",
+          hp_current: context.hp,
+          gold: context.gold,
+          inventory: context.inventory,
+          options: [],
+          game_over: true
+        };
+      }
+
+      if (!res.ok) {
+        throw new Error('Failed to generate response');
+      }
+      
+      return await consumeTurnStream<TurnResponse>(res, handlers);
+      
+    } catch {
+      return {
+        narrative: "The mists of fate swirl around you...",
+        hp_current: context.hp,
+        gold: context.gold,
+        inventory: context.inventory,
+        options: ["Continue cautiously", "Rest", "Look around"],
+        game_over: false
+      };
+    }
+  },
+
+  // Player dice command; saved adventures record the roll on their latest turn
+  async rollDice(notation: string, adventureId?: string): Promise<DiceRollResult> {
+    const res = await fetch(adventureId ? `/api/adventures/${adventureId}/roll` : '/api/dice/roll', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ notation }),
+    });
+
+    if (!res.ok) {
+      const error = await res.json();
+      throw new Error(error.message || 'Failed to roll dice');
+    }
+    const data = await res.json();
+    return data.roll;
+  },
+
+  // Saved adventures pass the turn the image belongs to so the server stores it there
+  async generateImage(prompt: string, turn?: { adventureId: string; turnNumber: number }): Promise<string | null> {
     try {
       const res = await fetch('/api/ai/image', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ prompt, adventureId })
+        body: JSON.stringify({ prompt, ...turn })
       });
       
       const data = await res.json();
@@ -231,14 +434,19 @@ export const API = {
   },
 
   // Generate epilogue based on full conversation history
-  async generateEpilogue(history: HistoryEntry[], context: GameState): Promise<EpilogueResponse> {
+  // Saved adventures send only their id - the server rebuilds the story from storage
+  async generateEpilogue(history: HistoryEntry[], context: GameState, adventureId?: string): Promise<EpilogueResponse> {
     try {
       const res = await fetch('/api/ai/epilogue', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ history, context })
+        body: JSON.stringify(adventureId ? { adventureId } : { history, context })
       });
+
+      if (!res.ok) {
+        throw new Error('Failed to generate epilogue');
+      }
       
       return await res.json();
     } catch {
@@ -266,7 +474,16 @@ export const AdventureAPI = {
     return res.json();
   },
 
-  // Get active adventure (for "Continue" button)
+  // Adventures still in play, the pinned one and how many slots the plan allows
+  async getSaveSlots(): Promise<{ slots: Adventure[]; currentAdventureId: string | null; tier: PlanTier; limit: number }> {
+    const res = await fetch('/api/adventures/slots', { credentials: 'include' });
+    if (!res.ok) {
+      throw new Error('Failed to fetch save slots');
+    }
+    return res.json();
+  },
+
+  // Get the pinned adventure (for "Continue" button)
   async getActiveAdventure(): Promise<{ adventure: Adventure | null; turns: AdventureTurn[] }> {
     const res = await fetch('/api/adventures/active', { credentials: 'include' });
     if (!res.ok) {
@@ -285,6 +502,20 @@ export const AdventureAPI = {
   },
 
   // Create a new adventure
+  // Roll ability scores on the server (creating the adventure only accepts this roll or a point buy)
+  async rollAbilityScores(): Promise<AbilityScores> {
+    const res = await fetch('/api/abilities/roll', {
+      method: 'POST',
+      credentials: 'include',
+    });
+    
+    if (!res.ok) {
+      throw new Error('Failed to roll ability scores');
+    }
+    const data = await res.json();
+    return data.abilityScores;
+  },
+
   async createAdventure(gameState: GameState): Promise<Adventure> {
     const res = await fetch('/api/adventures', {
       method: 'POST',
@@ -299,11 +530,10 @@ export const AdventureAPI = {
         campaignTitle: gameState.endgame?.title || null,
         campaignData: gameState.endgame,
         themeSeeds: gameState.themeSeeds,
-        currentHp: gameState.hp,
-        gold: gameState.gold,
-        inventory: gameState.inventory,
-        turnCount: 0,
-        maxTurns: -1, // Unlimited for signed-in users
+        abilityScores: gameState.abilities,
+        difficulty: gameState.difficulty,
+        campaignLength: gameState.campaignLength,
+        // Starting HP, gold and kit are set by the server from the class
       }),
     });
     
@@ -314,39 +544,59 @@ export const AdventureAPI = {
     return res.json();
   },
 
-  // Save a turn
-  async saveTurn(adventureId: string, turnData: {
-    playerAction: string;
-    narrative: string;
-    visualPrompt?: string;
-    hpAfter: number;
-    goldAfter: number;
-    inventoryAfter: string[];
-    options: string[];
-    diceRoll?: number | null;
-  }): Promise<{ turn: AdventureTurn; turnNumber: number }> {
-    const res = await fetch(`/api/adventures/${adventureId}/turn`, {
+  // Play a turn - the server generates the outcome from the stored adventure and saves it
+  async playTurn(adventureId: string, action: string): Promise<{ response: TurnResponse; turnNumber: number }> {
+    const res = await fetch(`/api/adventures/${adventureId}/play`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       credentials: 'include',
-      body: JSON.stringify(turnData),
+      body: JSON.stringify({ action }),
     });
     
     if (!res.ok) {
       const error = await res.json();
-      throw new Error(error.message || 'Failed to save turn');
+      throw new Error(error.message || 'Failed to play turn');
     }
     return res.json();
   },
 
-  // Update adventure (status, etc.)
+  // Streaming variant of playTurn - narrative text arrives through handlers as it is generated
+  async playTurnStream(adventureId: string, action: string, handlers: TurnStreamHandlers): Promise<{ response: TurnResponse; turnNumber: number }> {
+    const res = await fetch(`/api/adventures/${adventureId}/play/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ action }),
+    });
+    
+    if (!res.ok) {
+      const error = await res.json();
+      throw new Error(error.message || 'Failed to play turn');
+    }
+    return consumeTurnStream(res, handlers);
+  },
+
+  // Equip an item into a slot (itemName null empties the slot)
+  async equipItem(adventureId: string, slot: EquipmentSlot, itemName: string | null): Promise<Equipment> {
+    const res = await fetch(`/api/adventures/${adventureId}/equipment`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ slot, itemName }),
+    });
+    
+    if (!res.ok) {
+      const error = await res.json();
+      throw new Error(error.message || 'Failed to update equipment');
+    }
+    const data = await res.json();
+    return data.equipment;
+  },
+
+  // Update adventure (abandon, rename, etc.)
   async updateAdventure(id: string, updates: {
-    currentHp?: number;
-    gold?: number;
-    inventory?: string[];
-    status?: 'active' | 'completed' | 'abandoned';
-    endingType?: 'victory' | 'death' | 'limit_reached';
-    lastImage?: string;
+    status?: 'abandoned';
+    slotName?: string | null;
   }): Promise<Adventure> {
     const res = await fetch(`/api/adventures/${id}`, {
       method: 'PATCH',
@@ -389,6 +639,100 @@ export const AdventureAPI = {
     return data.adventure;
   },
 
+  // Rewind an adventure back to an earlier turn (later turns are deleted)
+  async rewindAdventure(id: string, turn: number): Promise<{ adventure: Adventure; turns: AdventureTurn[] }> {
+    const res = await fetch(`/api/adventures/${id}/rewind`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ turn }),
+    });
+    
+    if (!res.ok) {
+      const error = await res.json();
+      throw new Error(error.message || 'Failed to rewind adventure');
+    }
+    return res.json();
+  },
+
+  // Fork an adventure into a new one that keeps the turns up to and including `turn`
+  async forkAdventure(id: string, turn: number): Promise<{ adventure: Adventure; turns: AdventureTurn[] }> {
+    const res = await fetch(`/api/adventures/${id}/fork`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ turn }),
+    });
+    
+    if (!res.ok) {
+      const error = await res.json();
+      throw new Error(error.message || 'Failed to fork adventure');
+    }
+    return res.json();
+  },
+
+  // Import a save file (parsed JSON) as a new adventure
+  async importAdventure(saveFile: unknown): Promise<Adventure> {
+    const res = await fetch('/api/adventures/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(saveFile),
+    });
+    
+    if (!res.ok) {
+      const error = await res.json();
+      throw new Error(error.message || 'Failed to import adventure');
+    }
+    return res.json();
+  },
+
+  // Create the adventure's public share link, or get the existing one
+  async shareAdventure(id: string): Promise<{ shareToken: string; path: string }> {
+    const res = await fetch(`/api/adventures/${id}/share`, {
+      method: 'POST',
+      credentials: 'include',
+    });
+    
+    if (!res.ok) {
+      throw new Error('Failed to share adventure');
+    }
+    return res.json();
+  },
+
+  // Revoke the adventure's share link
+  async revokeShare(id: string): Promise<void> {
+    const res = await fetch(`/api/adventures/${id}/share`, {
+      method: 'DELETE',
+      credentials: 'include',
+    });
+    
+    if (!res.ok) {
+      throw new Error('Failed to revoke share link');
+    }
+  },
+
+  // Public replay of a shared adventure (no sign-in needed)
+  async getSharedAdventure(token: string): Promise<SharedAdventure | null> {
+    const res = await fetch(`/api/share/${token}`);
+    
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new Error('Failed to fetch shared adventure');
+    }
+    return res.json();
+  },
+
+  // Download link for the adventure's portable save file
+  saveFileUrl(id: string): string {
+    return `/api/adventures/${id}/save-file`;
+  },
+
+  // Download link for the adventure as a storybook
+  exportUrl(id: string, format: StorybookFormat): string {
+    return `/api/adventures/${id}/export?format=${format}`;
+  },
+
   // Convert Adventure + Turns to GameState
   adventureToGameState(adventure: Adventure, turns: AdventureTurn[]): GameState {
     // Reconstruct history from turns (including persisted dice rolls)
@@ -408,7 +752,7 @@ export const AdventureAPI = {
             narrative: turn.narrative,
             hp_current: turn.hpAfter,
             gold: turn.goldAfter,
-            inventory: turn.inventoryAfter,
+            inventory: normalizeInventory(turn.inventoryAfter),
             options: turn.options,
             game_over: false,
           }),
@@ -418,6 +762,7 @@ export const AdventureAPI = {
 
     // Get the last turn's data for immediate display on resume
     const lastTurn = turns.length > 0 ? turns[turns.length - 1] : null;
+    const inventory = normalizeInventory(adventure.inventory); // Older saves stored bare strings
 
     return {
       id: adventure.id,
@@ -431,8 +776,19 @@ export const AdventureAPI = {
       characterDescription: adventure.characterDescription || '',
       history,
       hp: adventure.currentHp,
+      maxHp: adventure.maxHp,
+      abilities: adventure.abilityScores,
+      xp: adventure.xp,
+      level: adventure.level,
       gold: adventure.gold,
-      inventory: adventure.inventory as string[],
+      inventory,
+      equipment: normalizeEquipment(adventure.equipment, inventory),
+      encounter: parseEncounter(adventure.encounter),
+      conditions: normalizeConditions(adventure.conditions),
+      traitsUsed: adventure.traitsUsed ?? [],
+      difficulty: parseDifficulty(adventure.difficulty),
+      act: parseAct(adventure.currentAct),
+      campaignLength: parseCampaignLength(adventure.campaignLength),
       turn: adventure.turnCount,
       maxTurns: adventure.maxTurns,
       // Last turn data for immediate display on resume
@@ -1,6 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { CreationScreen } from '@/components/game/CreationScreen';
 import { GameScreen } from '@/components/game/GameScreen';
+import { SaveSlotPicker, type SaveSlots } from '@/components/game/SaveSlotPicker';
 import { GameState, AdventureAPI } from '@/lib/game-engine';
 import { useAuth } from '@/hooks/useAuth';
 import { Loader2 } from 'lucide-react';
@@ -8,45 +9,34 @@ import { Loader2 } from 'lucide-react';
 export default function Play() {
   const { user, isLoading: authLoading, isAuthenticated } = useAuth();
   const [gameState, setGameState] = useState<GameState | null>(null);
-  const [isCheckingAdventure, setIsCheckingAdventure] = useState(false);
+  const [saveSlots, setSaveSlots] = useState<SaveSlots | null>(null);
+  const [isCheckingSlots, setIsCheckingSlots] = useState(false);
 
-  // Check for active adventure when user is authenticated
-  useEffect(() => {
-    async function checkActiveAdventure() {
-      if (!isAuthenticated || authLoading) return;
-      
-      setIsCheckingAdventure(true);
-      try {
-        const { adventure, turns } = await AdventureAPI.getActiveAdventure();
-        
-        // Only resume if adventure exists AND has valid campaign data
-        // This prevents loading incomplete/corrupted adventures
-        if (adventure && adventure.campaignData && adventure.campaignData.title) {
-          // Convert to GameState and resume
-          const state = AdventureAPI.adventureToGameState(adventure, turns);
-          
-          // Double-check the state is valid before resuming
-          if (state.endgame && state.name) {
-            setGameState(state);
-          } else {
-            console.warn('Adventure state incomplete, starting fresh');
-          }
-        }
-      } catch (error) {
-        console.error('Error checking active adventure:', error);
-        // Silently fail - user can start new game
-      } finally {
-        setIsCheckingAdventure(false);
-      }
-    }
+  // Signed-in players with adventures in play pick one from their save slots
+  const checkSaveSlots = useCallback(async () => {
+    if (!isAuthenticated || authLoading) return;
 
-    checkActiveAdventure();
+    setIsCheckingSlots(true);
+    try {
+      const { slots, currentAdventureId, limit } = await AdventureAPI.getSaveSlots();
+      setSaveSlots(slots.length > 0 ? { slots, currentAdventureId, limit } : null);
+    } catch (error) {
+      console.error('Error fetching save slots:', error);
+      // Silently fail - user can start new game
+      setSaveSlots(null);
+    } finally {
+      setIsCheckingSlots(false);
+    }
   }, [isAuthenticated, authLoading]);
 
+  useEffect(() => {
+    checkSaveSlots();
+  }, [checkSaveSlots]);
+
   const handleGameStart = async (state: GameState) => {
-    // If user is authenticated, create adventure on server
+    // If user is authenticated, create adventure on server (loaded adventures already have one)
     console.log('[DEBUG] handleGameStart - isAuthenticated:', isAuthenticated);
-    if (isAuthenticated) {
+    if (isAuthenticated && !state.id) {
       try {
         console.log('[DEBUG] Creating adventure on server...');
         const adventure = await AdventureAPI.createAdventure(state);
@@ -63,12 +53,18 @@ export default function Play() {
     setGameState(state);
   };
 
+  const handleResume = (state: GameState) => {
+    setSaveSlots(null);
+    setGameState(state);
+  };
+
   const handleReset = () => {
     setGameState(null);
+    checkSaveSlots();
   };
 
-  // Show loading while checking auth or active adventure
-  if (authLoading || isCheckingAdventure) {
+  // Show loading while checking auth or save slots
+  if (authLoading || isCheckingSlots) {
     return (
       <div className="h-screen w-full flex items-center justify-center bg-void">
         <div className="flex flex-col items-center gap-4">
@@ -79,6 +75,10 @@ export default function Play() {
     );
   }
 
+  if (!gameState && saveSlots) {
+    return <SaveSlotPicker initialSlots={saveSlots} onResume={handleResume} onNewAdventure={() => setSaveSlots(null)} />;
+  }
+
   if (!gameState) {
     return <CreationScreen onGameStart={handleGameStart} isAuthenticated={isAuthenticated} />;
   }
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { Crown, Loader2, Sparkles } from 'lucide-react';
+import { marked } from 'marked';
+import { Link } from 'wouter';
+import { AdventureAPI, SharedAdventure } from '@/lib/game-engine';
+import { ACT_LABELS } from '@shared/acts';
+
+interface SharePageProps {
+  params: { token: string };
+}
+
+// Shared pages are public, so the story's markdown must not carry raw HTML
+function renderNarrative(text: string): string {
+  return marked.parse(text.replace(/&/g, '&amp;').replace(/</g, '&lt;')) as string;
+}
+
+// Public read-only replay of a shared adventure
+export default function SharePage({ params }: SharePageProps) {
+  const [adventure, setAdventure] = useState<SharedAdventure | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    AdventureAPI.getSharedAdventure(params.token)
+      .then(shared => {
+        setAdventure(shared);
+        if (!shared) setError('This adventure is no longer shared.');
+      })
+      .catch(err => {
+        console.error('Failed to load shared adventure:', err);
+        setError('Could not load this adventure.');
+      })
+      .finally(() => setLoading(false));
+  }, [params.token]);
+
+  useEffect(() => {
+    if (adventure) document.title = `${adventure.title} - GemRPG`;
+  }, [adventure]);
+
+  if (loading) {
+    return (
+      <div className="h-screen w-full bg-void flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-mystic animate-spin" />
+      </div>
+    );
+  }
+
+  if (!adventure) {
+    return (
+      <div className="h-screen w-full bg-void flex flex-col items-center justify-center gap-4 p-8 text-center font-body">
+        <Crown className="w-10 h-10 text-gold" />
+        <p className="text-gray-400">{error}</p>
+        <Link href="/" className="text-mystic hover:text-white transition-colors text-sm font-bold">
+          Start Your Own Adventure
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen w-full overflow-y-auto bg-void p-6 md:p-16 font-body text-gray-300">
+      <div className="max-w-2xl mx-auto space-y-8">
+        <header className="text-center space-y-2">
+          <Link href="/" className="inline-flex items-center gap-2 text-gold/70 hover:text-gold text-[10px] tracking-[0.2em] uppercase transition-colors">
+            <Crown className="w-4 h-4" /> GemRPG
+          </Link>
+          <h1 className="text-3xl md:text-4xl font-fantasy text-gold">{adventure.title}</h1>
+          <p className="text-sm text-gray-400">{adventure.byline}</p>
+          <p className="text-xs text-gray-500">{adventure.details}</p>
+        </header>
+
+        {adventure.coverUrl && (
+          <img src={adventure.coverUrl} alt={adventure.title} className="w-full rounded-xl border border-white/10" />
+        )}
+
+        {adventure.backstory && (
+          <section className="space-y-3 p-4 bg-black/30 border border-mystic/20 rounded-lg text-sm font-story leading-relaxed">
+            <p>{adventure.backstory.world}</p>
+            <p>{adventure.backstory.hero}</p>
+          </section>
+        )}
+
+        {adventure.turns.map((turn, index) => (
+          <section key={turn.number} className="space-y-3">
+            {(index === 0 || adventure.turns[index - 1].act !== turn.act) && (
+              <h2 className="text-center text-xs font-bold text-mystic uppercase tracking-widest pt-4">
+                {ACT_LABELS[turn.act]}
+              </h2>
+            )}
+            {turn.action && (
+              <p className="text-sm text-gold/80 italic">&gt; {turn.action}</p>
+            )}
+            {turn.rolls.map((roll, rollIndex) => (
+              <p key={rollIndex} className="text-[10px] md:text-xs text-gray-500">🎲 {roll}</p>
+            ))}
+            <div
+              className="prose prose-sm md:prose-base prose-invert max-w-none font-story text-gray-300 leading-relaxed"
+              dangerouslySetInnerHTML={{ __html: renderNarrative(turn.narrative) }}
+            />
+            {turn.imageUrl && (
+              <img src={turn.imageUrl} alt={`Turn ${turn.number}`} loading="lazy" className="w-full rounded-lg border border-white/10" />
+            )}
+          </section>
+        ))}
+
+        {adventure.epilogue && (
+          <section className="space-y-3 p-6 bg-black/30 border border-gold/30 rounded-xl text-center">
+            <h2 className="text-2xl font-fantasy text-gold">{adventure.epilogue.title}</h2>
+            <p className="font-story text-sm md:text-base leading-relaxed whitespace-pre-line">{adventure.epilogue.text}</p>
+            {adventure.epilogue.legacy && (
+              <p className="text-xs text-mystic italic">{adventure.epilogue.legacy}</p>
+            )}
+          </section>
+        )}
+
+        {adventure.status === 'active' && (
+          <p className="text-center text-xs text-gray-500 italic">This tale is still being written.</p>
+        )}
+
+        <div className="text-center pb-8">
+          <Link
+            href="/"
+            className="inline-flex items-center gap-2 px-6 py-3 rounded-xl bg-gradient-to-r from-gold to-yellow-600 text-black font-bold text-sm hover:opacity-90 transition-all"
+          >
+            <Sparkles className="w-4 h-4" /> Start Your Own Adventure
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { eq } from "drizzle-orm";
+import { db, pool } from "../server/db";
+import { adventures, adventureTurns } from "../shared/schema";
+import { normalizeInventory } from "../shared/inventory";
+
+// One-off: rewrite inventories stored as bare strings into structured items.
+// Safe to re-run - rows that are already structured are left untouched.
+function isLegacy(value: unknown): boolean {
+  return Array.isArray(value) && value.some((entry) => typeof entry === "string");
+}
+
+async function migrateInventory() {
+  let adventureCount = 0;
+  for (const adventure of await db.select({ id: adventures.id, inventory: adventures.inventory }).from(adventures)) {
+    if (!isLegacy(adventure.inventory)) continue;
+    await db
+      .update(adventures)
+      .set({ inventory: normalizeInventory(adventure.inventory) })
+      .where(eq(adventures.id, adventure.id));
+    adventureCount++;
+  }
+
+  let turnCount = 0;
+  for (const turn of await db.select({ id: adventureTurns.id, inventoryAfter: adventureTurns.inventoryAfter }).from(adventureTurns)) {
+    if (!isLegacy(turn.inventoryAfter)) continue;
+    await db
+      .update(adventureTurns)
+      .set({ inventoryAfter: normalizeInventory(turn.inventoryAfter) })
+      .where(eq(adventureTurns.id, turn.id));
+    turnCount++;
+  }
+
+  console.log(`migrated ${adventureCount} adventures and ${turnCount} turns`);
+}
+
+migrateInventory()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
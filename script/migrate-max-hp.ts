@@ -0,0 +1,42 @@
+import { eq } from "drizzle-orm";
+import { db, pool } from "../server/db";
+import { adventures } from "../shared/schema";
+import { getMaxHp, levelForXp } from "../shared/progression";
+import { parseAbilityScores } from "../server/game-state";
+
+// One-off: adventures saved before max HP was stored got the column default (30) whatever
+// their class. Recompute it from class, level and CON, and bring current HP under the cap.
+// Safe to re-run - rows that already match are left untouched.
+async function migrateMaxHp() {
+  let adventureCount = 0;
+  const rows = await db
+    .select({
+      id: adventures.id,
+      characterClass: adventures.characterClass,
+      xp: adventures.xp,
+      abilityScores: adventures.abilityScores,
+      currentHp: adventures.currentHp,
+      maxHp: adventures.maxHp,
+    })
+    .from(adventures);
+
+  for (const adventure of rows) {
+    const maxHp = getMaxHp(adventure.characterClass, levelForXp(adventure.xp), parseAbilityScores(adventure.abilityScores));
+    const currentHp = Math.min(adventure.currentHp, maxHp);
+    if (maxHp === adventure.maxHp && currentHp === adventure.currentHp) continue;
+    await db
+      .update(adventures)
+      .set({ maxHp, currentHp })
+      .where(eq(adventures.id, adventure.id));
+    adventureCount++;
+  }
+
+  console.log(`migrated ${adventureCount} adventures`);
+}
+
+migrateMaxHp()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
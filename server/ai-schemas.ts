@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { inventoryItemSchema } from "@shared/inventory";
+import { encounterStartSchema } from "@shared/encounter";
+import { conditionAddSchema } from "@shared/conditions";
+
+// Schema for AI campaign generation response (structured output)
+export const campaignResponseSchema = z.object({
+  title: z.string().describe("Campaign title"),
+  act1: z.string().describe("The Setup & Inciting Incident (1 sentence)"),
+  act2: z.string().describe("The Twist & Rising Action (1 sentence)"),
+  act3: z.string().describe("The Climax & Final Boss (1 sentence)"),
+  possible_endings: z.array(z.string()).describe("3 possible endings"),
+  world_backstory: z.string().describe("World description (3-4 sentences)"),
+  character_backstory: z.string().describe("Character's past and motivation (3-4 sentences)"),
+});
+
+// Schema for AI chat/turn generation response (structured output)
+export const chatResponseSchema = z.object({
+  narrative: z.string().describe("Story text in 2nd person, 4-6 sentences with Markdown"),
+  visual_prompt: z.string().describe("Image prompt describing current scene"),
+  hp_current: z.number().describe("Current HP after this turn"),
+  gold: z.number().describe("Current gold after this turn"),
+  inventory: z.array(inventoryItemSchema).describe("Full inventory after this turn, identical items stacked by quantity"),
+  options: z.array(z.string()).describe("3 action options for the player"),
+  encounter_start: encounterStartSchema.optional().describe("Only when a NEW fight begins this turn and no fight is active: the enemies. Omit otherwise"),
+  conditions_added: z.array(conditionAddSchema).optional().describe("Conditions the character gains this turn (poisoned, blessed, bleeding...). Omit if none"),
+  conditions_removed: z.array(z.string()).optional().describe("Names of active conditions that end early this turn (cured, dispelled...). Omit if none"),
+  act_advanced: z.boolean().optional().describe("True only on the turn the story moves into the next act (the Act 2 twist, the Act 3 climax). Omit otherwise"),
+  xp_awarded: z.number().describe("XP earned this turn: 0 for nothing notable, 10-25 for progress or a won skill check, 50-100 for defeating a major foe or finishing a quest"),
+  game_over: z.boolean().describe("True if HP <= 0 or story ends"),
+});
+
+// Schema for epilogue generation response (structured output)
+export const epilogueResponseSchema = z.object({
+  epilogue_title: z.string().describe("A poetic title for the ending (e.g., 'The Dawn After Darkness')"),
+  epilogue_text: z.string().describe("2-3 paragraphs describing what happens after the story ends, written in past tense, reflecting on the character's journey and their ultimate fate"),
+  ending_type: z.enum(['victory', 'death', 'bittersweet', 'mysterious']).describe("The type of ending achieved"),
+  legacy: z.string().describe("A single sentence describing how the character will be remembered"),
+  visual_prompt: z.string().describe("A cinematic image prompt for the epilogue scene"),
+});
+
+// Schema for condensing a run of turns into a chapter summary (structured output)
+export const summaryResponseSchema = z.object({
+  summary: z.string().describe("Past-tense summary of the chapter (4-6 sentences): key events, choices, NPCs met, items gained or lost, unresolved threads"),
+});
+
+export type CampaignResponse = z.infer<typeof campaignResponseSchema>;
+export type ChatResponse = z.infer<typeof chatResponseSchema>;
+export type EpilogueResponse = z.infer<typeof epilogueResponseSchema>;
+export type SummaryResponse = z.infer<typeof summaryResponseSchema>;
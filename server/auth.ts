@@ -19,6 +19,12 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    abilityRollSeed?: string; // Seed of the player's last rolled ability scores
+  }
+}
+
 export function getSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   const pgStore = connectPg(session);
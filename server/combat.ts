@@ -0,0 +1,137 @@
+// Encounter engine: resolves one round of a fight per player turn with server dice.
+// The player's attack uses the turn's d20; enemy attacks and all damage come from a
+// fresh seed stored on the round.
+import type { RollRecord } from "@shared/dice";
+import { abilityModifier, SKILL_ABILITIES } from "@shared/progression";
+import { getEquipmentBonuses, sumBonuses } from "@shared/equipment";
+import { findTarget, type AttackResult, type CombatRound, type Encounter } from "@shared/encounter";
+import { formatDiceExpression, formatDiceRoll } from "@shared/dice-notation";
+import { createDiceStream, createSeed, rollExpression, type DiceStream } from "./dice";
+import type { TurnContext } from "./game-state";
+
+const FLEE_PATTERN = /\b(flee(s|ing)?|run(s|ning)? away|retreat(s|ing)?|escap(e|es|ing))\b/i;
+export const FLEE_DC = 12;
+
+// Skills that count as attacking when used in a fight
+const ATTACK_SKILLS = ['combat', 'arcane', 'divine'] as const;
+type AttackSkill = typeof ATTACK_SKILLS[number];
+
+export function isFleeAction(action: string): boolean {
+  return FLEE_PATTERN.test(action);
+}
+
+export function isAttackSkill(skill: string | null | undefined): skill is AttackSkill {
+  return ATTACK_SKILLS.some(s => s === skill);
+}
+
+export interface CombatResult {
+  encounter: Encounter;
+  round: CombatRound;
+  hp: number; // Player HP after the round
+}
+
+function resolvesHit(raw: number, total: number, defense: number): boolean {
+  if (raw === 20) return true;
+  if (raw === 1) return false;
+  return total >= defense;
+}
+
+// One damage die (two on a critical) plus a flat modifier, e.g. "2d8+2 [5, 3] + 2 = 10"
+function rollDamage(dice: DiceStream, sides: number, critical: boolean, modifier: number): { total: number; text: string } {
+  const expression = { groups: [{ sign: 1 as const, count: critical ? 2 : 1, sides }], modifier };
+  const { dice: rolled, total } = rollExpression(dice, expression);
+  return {
+    total,
+    text: formatDiceRoll({ notation: formatDiceExpression(expression), dice: rolled, modifier, total }),
+  };
+}
+
+export function resolveCombatRound(
+  encounter: Encounter,
+  action: string,
+  roll: RollRecord,
+  context: TurnContext
+): CombatResult {
+  const seed = createSeed();
+  const dice = createDiceStream(seed);
+  const enemies = encounter.enemies.map(enemy => ({ ...enemy }));
+  const attacks: AttackResult[] = [];
+  let hp = context.hp;
+  let fled: boolean | undefined;
+
+  const dex = abilityModifier(context.abilities.dex);
+  const skill = isAttackSkill(roll.skill) ? roll.skill : null;
+  const kind: CombatRound['action'] = isFleeAction(action) ? 'flee' : skill ? 'attack' : 'other';
+
+  // The rules engine already added every modifier (DEX for a flee) to the roll's total
+  if (kind === 'flee') {
+    fled = resolvesHit(roll.raw, roll.total, FLEE_DC);
+  } else if (skill) {
+    const target = findTarget({ ...encounter, enemies }, action);
+    const total = roll.total;
+    const hit = resolvesHit(roll.raw, total, target.armor);
+    const critical = roll.raw === 20;
+
+    // Weapons hit for a d8 (d4 bare-handed), spells and prayers for a d8
+    const die = skill !== 'combat' || context.equipment.mainHand ? 8 : 4;
+    const bonus = abilityModifier(context.abilities[SKILL_ABILITIES[skill]]);
+    const damageRoll = hit ? rollDamage(dice, die, critical, bonus) : null;
+    const damage = damageRoll ? Math.max(1, damageRoll.total) : 0;
+    target.hp = Math.max(0, target.hp - damage);
+
+    attacks.push({
+      attacker: context.name,
+      target: target.name,
+      raw: roll.raw,
+      total,
+      defense: target.armor,
+      hit,
+      critical: hit && critical,
+      damage,
+      ...(damageRoll ? { damageRoll: damageRoll.text } : {}),
+      targetHpAfter: target.hp,
+    });
+  }
+
+  // Surviving enemies strike back unless the player got away
+  if (!fled) {
+    const defense = 10 + dex;
+    const reduction = sumBonuses(getEquipmentBonuses(context.equipment, context.inventory).damageReduction);
+
+    for (const enemy of enemies.filter(e => e.hp > 0)) {
+      if (hp <= 0) break;
+      const raw = dice.roll(20);
+      const total = raw + enemy.attackBonus;
+      const hit = resolvesHit(raw, total, defense);
+      const critical = hit && raw === 20;
+      const damageRoll = hit ? rollDamage(dice, enemy.damageDie, critical, -reduction) : null;
+      const damage = damageRoll ? Math.max(1, damageRoll.total) : 0;
+      hp = Math.max(0, hp - damage);
+
+      attacks.push({
+        attacker: enemy.name,
+        target: context.name,
+        raw,
+        total,
+        defense,
+        hit,
+        critical,
+        damage,
+        ...(damageRoll ? { damageRoll: damageRoll.text } : {}),
+        targetHpAfter: hp,
+      });
+    }
+  }
+
+  const round: CombatRound = { round: encounter.round + 1, seed, action: kind, attacks, fled };
+  const status = fled ? 'fled'
+    : enemies.every(enemy => enemy.hp <= 0) ? 'won'
+    : hp <= 0 ? 'lost'
+    : 'active';
+
+  return {
+    encounter: { round: round.round, status, enemies, lastRound: round },
+    round,
+    hp,
+  };
+}
@@ -0,0 +1,105 @@
+// Server-side dice. Every roll is derived from a random seed with HMAC-SHA256 so the
+// seed stored on the turn is enough to reproduce and verify the result.
+import { createHmac, randomBytes } from "crypto";
+import { getRollOutcome, type RollMode, type RollRecord } from "@shared/dice";
+import { abilityNames, type AbilityScores } from "@shared/progression";
+import { formatDiceExpression, type DiceExpression, type DiceRollResult, type RolledDie } from "@shared/dice-notation";
+
+export function createSeed(): string {
+  return randomBytes(16).toString('hex');
+}
+
+// Deterministic die stream for a seed: the nth call always yields the same face
+export function createDiceStream(seed: string) {
+  let counter = 0;
+  return {
+    roll(sides: number): number {
+      // Rejection sampling keeps every face equally likely
+      const limit = Math.floor(0x100000000 / sides) * sides;
+      for (;;) {
+        const digest = createHmac('sha256', seed).update(String(counter++)).digest();
+        const value = digest.readUInt32BE(0);
+        if (value < limit) {
+          return (value % sides) + 1;
+        }
+      }
+    },
+  };
+}
+
+// A reroll takes the next die from the same seed, so it stays reproducible
+export type DiceStream = ReturnType<typeof createDiceStream>;
+
+// Roll every group of an expression from a stream, marking dice that kh/kl discards
+export function rollExpression(stream: DiceStream, expression: DiceExpression): { dice: RolledDie[]; total: number } {
+  const dice: RolledDie[] = [];
+  let total = expression.modifier;
+
+  for (const group of expression.groups) {
+    const rolls: RolledDie[] = Array.from({ length: group.count }, () => ({ sides: group.sides, value: stream.roll(group.sides) }));
+    if (group.keep) {
+      const order = rolls
+        .map((die, index) => ({ die, index }))
+        .sort((a, b) => group.keep!.mode === 'kh' ? b.die.value - a.die.value : a.die.value - b.die.value);
+      order.slice(group.keep.count).forEach(({ die }) => { die.dropped = true; });
+    }
+    total += group.sign * rolls.filter(die => !die.dropped).reduce((sum, die) => sum + die.value, 0);
+    dice.push(...rolls);
+  }
+
+  return { dice, total };
+}
+
+export function rollDice(expression: DiceExpression, label?: string, seed = createSeed()): DiceRollResult {
+  const { dice, total } = rollExpression(createDiceStream(seed), expression);
+  return {
+    notation: formatDiceExpression(expression),
+    ...(label ? { label } : {}),
+    seed,
+    dice,
+    modifier: expression.modifier,
+    total,
+  };
+}
+
+export function rollD20(
+  modifier = 0,
+  seed = createSeed(),
+  options: { rerollNaturalOne?: boolean; dc?: number; mode?: RollMode } = {}
+): RollRecord {
+  const dice = createDiceStream(seed);
+  let rerolled: number | undefined;
+  // Each die comes off the same stream; a reroll replaces the first natural 1 only
+  const rollOne = () => {
+    const value = dice.roll(20);
+    if (value === 1 && options.rerollNaturalOne && rerolled === undefined) {
+      rerolled = value;
+      return dice.roll(20);
+    }
+    return value;
+  };
+
+  const rolls = options.mode ? [rollOne(), rollOne()] : [rollOne()];
+  const raw = options.mode === 'disadvantage' ? Math.min(...rolls) : Math.max(...rolls);
+  const total = raw + modifier;
+  return {
+    seed,
+    raw,
+    modifier,
+    total,
+    outcome: getRollOutcome(raw, total, options.dc),
+    ...(options.dc !== undefined ? { dc: options.dc } : {}),
+    ...(rerolled !== undefined ? { rerolled } : {}),
+    ...(options.mode ? { mode: options.mode, rolls } : {}),
+  };
+}
+
+// Rolled ability scores: 4d6 per ability, dropping the lowest die, all from one seed
+export function rollAbilityScores(seed = createSeed()): AbilityScores {
+  const dice = createDiceStream(seed);
+  const rollAbility = () => {
+    const rolls = [dice.roll(6), dice.roll(6), dice.roll(6), dice.roll(6)].sort((a, b) => a - b);
+    return rolls[1] + rolls[2] + rolls[3];
+  };
+  return Object.fromEntries(abilityNames.map(ability => [ability, rollAbility()])) as AbilityScores;
+}
@@ -0,0 +1,246 @@
+// Helpers for rebuilding a turn's prompt context from persisted adventure data
+import type { Adventure, AdventureTurn, adventureTurns } from "@shared/schema";
+import type { ChatResponse } from "./ai-schemas";
+import { normalizeInventory, type InventoryItem } from "@shared/inventory";
+import { normalizeEquipment, type Equipment } from "@shared/equipment";
+import { parseEncounter, type Encounter } from "@shared/encounter";
+import { normalizeConditions, type Condition } from "@shared/conditions";
+import { parseDifficulty, type Difficulty } from "@shared/difficulty";
+import { parseAct, type Act } from "@shared/acts";
+import { parseCampaignLength, type CampaignLength } from "@shared/campaign-length";
+import type { CombatResult } from "./combat";
+import type { ItemUse } from "./rules";
+import {
+  abilityScoresSchema,
+  DEFAULT_ABILITY_SCORES,
+  getMaxHp,
+  levelForXp,
+  type AbilityScores,
+} from "@shared/progression";
+
+// Cap on XP from a single turn, whatever the model asks for
+const MAX_XP_PER_TURN = 100;
+
+// Cap on the gold a character can carry
+export const MAX_GOLD = 100000;
+
+export interface CampaignContext {
+  title: string;
+  act1: string;
+  act2: string;
+  act3: string;
+  possible_endings: string[];
+  world_backstory: string;
+  character_backstory: string;
+}
+
+// Same shape the client sends as `context` to /api/ai/chat
+export interface TurnContext {
+  name: string;
+  gender: string;
+  race: string;
+  class: string;
+  characterDescription: string;
+  customInstructions: string;
+  endgame: CampaignContext | null;
+  hp: number;
+  maxHp: number;
+  abilities: AbilityScores;
+  xp: number;
+  gold: number;
+  inventory: InventoryItem[];
+  equipment: Equipment;
+  encounter: Encounter | null;
+  conditions: Condition[];
+  traitsUsed: string[]; // Once-per-adventure racial traits already spent
+  difficulty: Difficulty;
+  act: Act;
+  campaignLength: CampaignLength;
+  combat?: CombatResult; // Round resolved this turn, for the prompt (server-side only)
+  itemUse?: ItemUse; // Healing item used up before the prompt was built (server-side only)
+  turn: number;
+  maxTurns: number;
+  storySoFar?: string; // Condensed earlier chapters (server-side only)
+}
+
+export interface HistoryEntry {
+  role: 'user' | 'model';
+  parts: { text: string }[];
+}
+
+export function adventureToTurnContext(adventure: Adventure): TurnContext {
+  const inventory = normalizeInventory(adventure.inventory);
+  return {
+    name: adventure.characterName,
+    gender: adventure.characterGender,
+    race: adventure.characterRace,
+    class: adventure.characterClass,
+    characterDescription: adventure.characterDescription || '',
+    customInstructions: adventure.themeSeeds || '',
+    endgame: adventure.campaignData as CampaignContext | null,
+    hp: adventure.currentHp,
+    maxHp: adventure.maxHp,
+    abilities: parseAbilityScores(adventure.abilityScores),
+    xp: adventure.xp,
+    gold: adventure.gold,
+    inventory,
+    equipment: normalizeEquipment(adventure.equipment, inventory),
+    encounter: parseEncounter(adventure.encounter),
+    conditions: normalizeConditions(adventure.conditions),
+    traitsUsed: parseTraitsUsed(adventure.traitsUsed),
+    difficulty: parseDifficulty(adventure.difficulty),
+    act: parseAct(adventure.currentAct),
+    campaignLength: parseCampaignLength(adventure.campaignLength),
+    turn: adventure.turnCount,
+    maxTurns: adventure.maxTurns,
+  };
+}
+
+// Adventure state as it stood right after a turn, from the turn's snapshot columns.
+// Used to rewind and fork; derived numbers (level, max HP) are recomputed from the XP, and
+// the snapshot is clamped so a bad or imported row can't come back as a dead or inflated run.
+export function turnToAdventureState(adventure: Adventure, turn: AdventureTurn): Partial<Adventure> {
+  const abilities = parseAbilityScores(adventure.abilityScores);
+  const inventory = normalizeInventory(turn.inventoryAfter);
+  const xp = Math.max(0, Math.min(maxXpAfterTurn(turn.turnNumber), turn.xpAfter ?? 0));
+  const level = levelForXp(xp);
+  const maxHp = getMaxHp(adventure.characterClass, level, abilities);
+  return {
+    currentHp: Math.max(1, Math.min(maxHp, turn.hpAfter)),
+    maxHp,
+    xp,
+    level,
+    gold: Math.max(0, Math.min(MAX_GOLD, turn.goldAfter)),
+    inventory,
+    equipment: normalizeEquipment(adventure.equipment, inventory),
+    encounter: parseEncounter(turn.encounterAfter),
+    conditions: normalizeConditions(turn.conditionsAfter),
+    traitsUsed: parseTraitsUsed(turn.traitsUsedAfter),
+    currentAct: parseAct(turn.actAfter),
+  };
+}
+
+// Most XP a character can have earned by the end of the given turn
+export function maxXpAfterTurn(turnNumber: number): number {
+  return MAX_XP_PER_TURN * Math.max(0, turnNumber);
+}
+
+type TurnSnapshot = Pick<
+  typeof adventureTurns.$inferInsert,
+  'turnNumber' | 'hpAfter' | 'xpAfter' | 'goldAfter' | 'inventoryAfter' | 'encounterAfter' | 'actAfter' | 'conditionsAfter' | 'traitsUsedAfter'
+>;
+
+// A turn's snapshot columns held to what the server could have recorded by that turn.
+// For turns from save files, which can be edited by hand before they are imported.
+export function normalizeTurnSnapshot<T extends TurnSnapshot>(turn: T, className: string, abilities: AbilityScores): T {
+  const xpAfter = turn.xpAfter == null ? null : Math.max(0, Math.min(maxXpAfterTurn(turn.turnNumber), turn.xpAfter));
+  const maxHp = getMaxHp(className, levelForXp(xpAfter ?? 0), abilities);
+  return {
+    ...turn,
+    hpAfter: Math.max(0, Math.min(maxHp, turn.hpAfter)),
+    xpAfter,
+    goldAfter: Math.max(0, Math.min(MAX_GOLD, turn.goldAfter)),
+    inventoryAfter: normalizeInventory(turn.inventoryAfter),
+    encounterAfter: parseEncounter(turn.encounterAfter),
+    actAfter: parseAct(turn.actAfter),
+    conditionsAfter: normalizeConditions(turn.conditionsAfter),
+    traitsUsedAfter: parseTraitsUsed(turn.traitsUsedAfter),
+  };
+}
+
+// Stored or client-sent scores, falling back to all 10s if they are missing or malformed
+export function parseAbilityScores(value: unknown): AbilityScores {
+  const result = abilityScoresSchema.safeParse(value);
+  return result.success ? result.data : DEFAULT_ABILITY_SCORES;
+}
+
+export function parseTraitsUsed(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((trait): trait is string => typeof trait === 'string') : [];
+}
+
+// Anonymous games send their own context. Derived numbers (ability scores, max HP)
+// are recomputed here so a client can't raise its own cap.
+export function normalizeClientContext(context: TurnContext): TurnContext {
+  const abilities = parseAbilityScores(context?.abilities);
+  const xp = typeof context?.xp === 'number' && context.xp > 0 ? Math.floor(context.xp) : 0;
+  const inventory = normalizeInventory(context?.inventory);
+  return {
+    ...context,
+    inventory,
+    equipment: normalizeEquipment(context?.equipment, inventory),
+    encounter: parseEncounter(context?.encounter), // Trial games keep the fight client-side
+    conditions: normalizeConditions(context?.conditions),
+    traitsUsed: parseTraitsUsed(context?.traitsUsed),
+    difficulty: parseDifficulty(context?.difficulty),
+    act: parseAct(context?.act),
+    campaignLength: parseCampaignLength(context?.campaignLength),
+    abilities,
+    xp,
+    maxHp: getMaxHp(context?.class, levelForXp(xp), abilities),
+  };
+}
+
+// Mirrors AdventureAPI.adventureToGameState on the client
+export function turnsToHistory(turns: AdventureTurn[]): HistoryEntry[] {
+  const history: HistoryEntry[] = [];
+  for (const turn of turns) {
+    history.push({ role: 'user', parts: [{ text: turn.playerAction }] });
+    history.push({
+      role: 'model',
+      parts: [{
+        text: JSON.stringify({
+          narrative: turn.narrative,
+          hp_current: turn.hpAfter,
+          gold: turn.goldAfter,
+          inventory: normalizeInventory(turn.inventoryAfter),
+          options: turn.options,
+          game_over: false,
+        }),
+      }],
+    });
+  }
+  return history;
+}
+
+// Normalize model output before it is persisted: whole numbers, HP capped at max,
+// gold within 0..MAX_GOLD, no blank items or options, and a death always ends the game.
+export function sanitizeTurnResponse(response: ChatResponse, maxHp: number): ChatResponse {
+  const hp = Math.min(maxHp, Math.round(response.hp_current));
+  return {
+    ...response,
+    hp_current: hp,
+    gold: Math.max(0, Math.min(MAX_GOLD, Math.round(response.gold))),
+    inventory: normalizeInventory(response.inventory),
+    options: response.options.map(option => option.trim()).filter(Boolean).slice(0, 3),
+    xp_awarded: Math.max(0, Math.min(MAX_XP_PER_TURN, Math.round(response.xp_awarded))),
+    game_over: response.game_over || hp <= 0,
+  };
+}
+
+export interface TurnProgress {
+  xp: number;
+  level: number;
+  max_hp: number;
+  leveled_up: boolean;
+}
+
+// Add a sanitized turn's XP. A level-up raises max HP and heals by the amount gained
+// (unless the character just died).
+export function applyExperience(
+  response: ChatResponse,
+  state: { className: string; abilities: AbilityScores; xp: number; maxHp: number }
+): { response: ChatResponse; progress: TurnProgress } {
+  const xp = state.xp + response.xp_awarded;
+  const level = levelForXp(xp);
+  const leveledUp = level > levelForXp(state.xp);
+  const maxHp = leveledUp ? getMaxHp(state.className, level, state.abilities) : state.maxHp;
+  const hpGained = Math.max(0, maxHp - state.maxHp);
+
+  return {
+    response: {
+      ...response,
+      hp_current: response.hp_current > 0 ? Math.min(maxHp, response.hp_current + hpGained) : response.hp_current,
+    },
+    progress: { xp, level, max_hp: maxHp, leveled_up: leveledUp },
+  };
+}
@@ -13,14 +13,18 @@ declare module "http" {
   }
 }
 
-app.use(
-  express.json({
-    limit: '10mb', // Allow large payloads for base64 images
-    verify: (req, _res, buf) => {
-      req.rawBody = buf;
-    },
-  }),
-);
+const jsonParser = express.json({
+  limit: '10mb', // Allow large payloads for base64 images
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+});
+
+// Save file imports are parsed by their route, only once the player is signed in
+app.use((req, res, next) => {
+  if (req.path === '/api/adventures/import') return next();
+  jsonParser(req, res, next);
+});
 
 app.use(express.urlencoded({ extended: false, limit: '10mb' }));
 
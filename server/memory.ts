@@ -0,0 +1,83 @@
+// Rolling adventure memory: older turns are condensed into stored chapter summaries so the
+// Dungeon Master prompt stays a fixed size no matter how long the adventure runs.
+import type { Adventure, AdventureTurn, AdventureSummary } from "@shared/schema";
+import { storage } from "./storage";
+import { summaryResponseSchema } from "./ai-schemas";
+import type { IAIProvider } from "./providers";
+
+// Raw turns always kept verbatim at the end of the prompt
+export const RECENT_TURNS = 12;
+// Turns condensed into each chapter summary
+export const CHAPTER_SIZE = 10;
+
+// Adventures with a condensation in flight, so overlapping turns don't ask for the same chapter twice
+const condensing = new Set<string>();
+
+// Last turn number already covered by a summary (0 if none)
+export function summarizedThrough(summaries: AdventureSummary[]): number {
+  return summaries.length > 0 ? summaries[summaries.length - 1].toTurn : 0;
+}
+
+// Turns that still need to be sent verbatim
+export function unsummarizedTurns(turns: AdventureTurn[], summaries: AdventureSummary[]): AdventureTurn[] {
+  const through = summarizedThrough(summaries);
+  return turns.filter(turn => turn.turnNumber > through);
+}
+
+export function formatStorySoFar(summaries: AdventureSummary[]): string {
+  return summaries
+    .map(s => `Chapter ${s.chapterNumber} (turns ${s.fromTurn}-${s.toTurn}): ${s.summary}`)
+    .join('\n');
+}
+
+// Condense the oldest unsummarized chapter once enough turns have piled up behind the
+// recent window. Safe to call after every turn; it is a no-op most of the time.
+export async function condenseMemory(ai: IAIProvider, adventure: Adventure): Promise<AdventureSummary | undefined> {
+  if (condensing.has(adventure.id)) {
+    return undefined;
+  }
+  condensing.add(adventure.id);
+
+  try {
+    const summaries = await storage.getAdventureSummaries(adventure.id);
+    const pending = unsummarizedTurns(await storage.getAdventureTurns(adventure.id), summaries);
+    if (pending.length < RECENT_TURNS + CHAPTER_SIZE) {
+      return undefined;
+    }
+
+    const chapter = pending.slice(0, CHAPTER_SIZE);
+    const fromTurn = chapter[0].turnNumber;
+    const toTurn = chapter[chapter.length - 1].turnNumber;
+    const previous = formatStorySoFar(summaries);
+    const transcript = chapter
+      .map(turn => `Turn ${turn.turnNumber} - ${adventure.characterName}: ${turn.playerAction}\n${turn.narrative}`)
+      .join('\n\n');
+
+    const result = await ai.generateJson({
+      task: 'summary',
+      schema: summaryResponseSchema,
+      systemInstruction: `You keep the chronicle of an RPG campaign starring ${adventure.characterName}, a ${adventure.characterRace} ${adventure.characterClass}. Summarize the chapter below so a Dungeon Master can continue the story without the full transcript. Keep names, places, promises, enemies and items that may matter later. Do not invent events.`,
+      contents: [{
+        role: 'user',
+        parts: [{ text: `${previous ? `STORY SO FAR:\n${previous}\n\n` : ''}CHAPTER TO SUMMARIZE:\n${transcript}` }],
+      }],
+      context: {
+        name: adventure.characterName,
+        fromTurn,
+        toTurn,
+        actions: chapter.map(turn => turn.playerAction),
+      },
+    });
+
+    // Skipped if the adventure was rewound, restarted or condensed elsewhere meanwhile
+    return await storage.createSummary({
+      adventureId: adventure.id,
+      chapterNumber: summaries.length + 1,
+      fromTurn,
+      toTurn,
+      summary: result.summary.trim(),
+    }, chapter.map(turn => turn.id));
+  } finally {
+    condensing.delete(adventure.id);
+  }
+}
@@ -0,0 +1,94 @@
+import { GoogleGenAI } from "@google/genai";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { IAIProvider, TextRequest, JsonRequest } from "./types";
+
+const MODEL_TEXT = "gemini-2.0-flash";
+const MODEL_IMAGE = "gemini-2.5-flash-image";
+
+export class GeminiProvider implements IAIProvider {
+  readonly name = "gemini";
+  private genAI: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.genAI = new GoogleGenAI({ apiKey });
+  }
+
+  async generateText(request: TextRequest): Promise<string> {
+    const response = await this.genAI.models.generateContent({
+      model: MODEL_TEXT,
+      contents: [
+        {
+          role: 'user',
+          parts: [{ text: request.prompt }],
+        },
+      ],
+    });
+    
+    return response.text || "";
+  }
+
+  async generateJson<T>(request: JsonRequest<T>): Promise<T> {
+    const response = await this.genAI.models.generateContent(this.jsonParams(request));
+
+    const text = response.text;
+    if (!text) {
+      throw new Error("No content in response");
+    }
+
+    return request.schema.parse(JSON.parse(text));
+  }
+
+  async streamJson<T>(request: JsonRequest<T>, onText: (chunk: string) => void): Promise<T> {
+    const stream = await this.genAI.models.generateContentStream(this.jsonParams(request));
+
+    let text = "";
+    for await (const chunk of stream) {
+      if (chunk.text) {
+        text += chunk.text;
+        onText(chunk.text);
+      }
+    }
+
+    if (!text) {
+      throw new Error("No content in response");
+    }
+
+    return request.schema.parse(JSON.parse(text));
+  }
+
+  private jsonParams<T>(request: JsonRequest<T>) {
+    return {
+      model: MODEL_TEXT,
+      contents: request.contents,
+      config: {
+        systemInstruction: request.systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: zodToJsonSchema(request.schema),
+      },
+    };
+  }
+
+  async generateImage(prompt: string): Promise<string | null> {
+    const response = await this.genAI.models.generateContent({
+      model: MODEL_IMAGE,
+      contents: [
+        {
+          role: 'user',
+          parts: [{ text: prompt }],
+        },
+      ],
+      config: {
+        responseModalities: ['IMAGE', 'TEXT'],
+      },
+    });
+    
+    // Extract image from response parts
+    const parts = response.candidates?.[0]?.content?.parts || [];
+    for (const part of parts) {
+      if (part.inlineData?.data) {
+        return part.inlineData.data;
+      }
+    }
+    return null;
+  }
+}
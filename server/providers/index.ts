@@ -0,0 +1,29 @@
+import { GeminiProvider } from "./gemini";
+import { LocalProvider } from "./local";
+import type { IAIProvider } from "./types";
+
+export type { IAIProvider, AITask, AIMessage, TextRequest, JsonRequest } from "./types";
+
+// AI_PROVIDER=gemini|local picks a backend explicitly. Without it, Gemini is used when
+// GEMINI_API_KEY is set and the deterministic local provider otherwise.
+export function createAIProvider(): IAIProvider {
+  const requested = process.env.AI_PROVIDER;
+  const apiKey = process.env.GEMINI_API_KEY || "";
+
+  if (requested === 'local') {
+    return new LocalProvider();
+  }
+
+  if (requested === 'gemini' || (!requested && apiKey)) {
+    if (!apiKey) {
+      throw new Error("AI_PROVIDER=gemini requires GEMINI_API_KEY");
+    }
+    return new GeminiProvider(apiKey);
+  }
+
+  if (requested) {
+    throw new Error(`Unknown AI_PROVIDER "${requested}" (expected "gemini" or "local")`);
+  }
+
+  return new LocalProvider();
+}
@@ -0,0 +1,182 @@
+// Deterministic offline provider. Output is scripted from the request context and a hash
+// of the prompt, so the same request always produces the same (schema-valid) response.
+import type { IAIProvider, TextRequest, JsonRequest, AIMessage } from "./types";
+import { actStartTurn, parseAct, targetTurnsFor, ACT_COUNT, type Act } from "@shared/acts";
+import { parseCampaignLength } from "@shared/campaign-length";
+
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_CHUNK_DELAY_MS = 30;
+
+const NAMES = ["Thorgar", "Elara", "Kaelen", "Nyx", "Valen", "Sylas", "Aria", "Dorn"];
+
+const SCENES = [
+  "You venture deeper into the darkness. The air grows colder with every step.",
+  "Torchlight flickers across walls slick with moss and old blood.",
+  "A distant bell tolls somewhere beneath your feet, slow and patient.",
+  "The corridor opens onto a vaulted chamber lit by a single dying brazier.",
+  "Wind howls through a crack in the stone, carrying the smell of ash.",
+];
+
+const OUTCOME_LINES: Record<string, string> = {
+  crit: "Fortune bends to your will - the attempt succeeds beyond all hope, and something glints in the rubble.",
+  success: "Your effort pays off cleanly.",
+  partial: "You manage it, but not without cost.",
+  fail: "It goes wrong. Pain flares as the world pushes back.",
+  critfail: "Disaster. You stumble badly and something unseen strikes you.",
+};
+
+// HP, gold and XP swings per roll outcome
+const OUTCOME_EFFECTS: Record<string, { hp: number; gold: number; xp: number }> = {
+  crit: { hp: 0, gold: 10, xp: 50 },
+  success: { hp: 0, gold: 3, xp: 25 },
+  partial: { hp: -2, gold: 0, xp: 10 },
+  fail: { hp: -4, gold: 0, xp: 5 },
+  critfail: { hp: -7, gold: 0, xp: 0 },
+};
+
+const OPTION_SETS = [
+  ["Search the area for hidden passages", "Call out into the darkness", "Draw your weapon and advance"],
+  ["Examine the strange markings closely", "Retreat to safer ground", "Press onward despite the danger"],
+  ["Bargain with the shadowy figure", "Set a trap and wait", "Charge through before it closes"],
+];
+
+// FNV-1a string hash
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function pick<T>(items: readonly T[], seed: number): T {
+  return items[seed % items.length];
+}
+
+function str(value: unknown, fallback: string): string {
+  return typeof value === 'string' && value ? value : fallback;
+}
+
+function num(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function messagesText(contents: AIMessage[]): string {
+  return contents.map(m => m.parts.map(p => p.text).join(' ')).join('\n');
+}
+
+export class LocalProvider implements IAIProvider {
+  readonly name = "local";
+
+  async generateText(request: TextRequest): Promise<string> {
+    const ctx = request.context || {};
+    const seed = hash(request.prompt);
+
+    switch (request.task) {
+      case 'name':
+        return pick(NAMES, seed);
+      case 'visuals':
+        return `${str(ctx.gender, 'Male')} ${str(ctx.race, 'Human')} ${str(ctx.class, 'Warrior')} standing in a dimly lit dungeon, weathered gear and a steady gaze.`;
+      default:
+        return pick(SCENES, seed);
+    }
+  }
+
+  async generateJson<T>(request: JsonRequest<T>): Promise<T> {
+    const seed = hash(`${request.task}\n${request.systemInstruction || ''}\n${messagesText(request.contents)}`);
+    return request.schema.parse(this.script(request.task, request.context || {}, seed));
+  }
+
+  // Replays the scripted JSON in small slices so streaming clients can be exercised offline
+  async streamJson<T>(request: JsonRequest<T>, onText: (chunk: string) => void): Promise<T> {
+    const result = await this.generateJson(request);
+    const text = JSON.stringify(result);
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+      onText(text.slice(i, i + STREAM_CHUNK_SIZE));
+      await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+    }
+    return result;
+  }
+
+  async generateImage(_prompt: string): Promise<string | null> {
+    return null;
+  }
+
+  private script(task: JsonRequest<unknown>['task'], ctx: Record<string, unknown>, seed: number): unknown {
+    const name = str(ctx.name, 'The hero');
+
+    switch (task) {
+      case 'campaign':
+        return {
+          title: "The Shadow of the Void",
+          act1: "You awaken in a cold, dark cell with no memory of how you arrived.",
+          act2: "A mysterious artifact whispers to you, promising power at a terrible cost.",
+          act3: "You must choose between saving the realm or becoming its new tyrant.",
+          possible_endings: ["Hero", "Tyrant", "Martyr"],
+          world_backstory: "The world of Aethelgard is crumbling under the weight of an ancient curse.",
+          character_backstory: `${name} was once a respected ${str(ctx.class, 'adventurer')} before the darkness fell.`,
+        };
+
+      case 'chat': {
+        const turn = num(ctx.turn, 0) + 1;
+        const roll = ctx.roll as { outcome?: string; skill?: string | null } | null | undefined;
+        const effect = roll?.outcome ? OUTCOME_EFFECTS[roll.outcome] : { hp: 0, gold: 0, xp: 0 };
+        const hp = num(ctx.hp, 30) + effect.hp;
+        const outcomeLine = roll?.outcome ? `\n\n${OUTCOME_LINES[roll.outcome]}` : '';
+
+        // Narrate a resolved combat round from its attack log, or start a fight on a combat action
+        const combat = ctx.combat as { round: { attacks: { attacker: string; target: string; hit: boolean; damage: number }[] } } | undefined;
+        const encounter = ctx.encounter as { status?: string } | null | undefined;
+        const combatLine = combat
+          ? `\n\n${combat.round.attacks.map(a => a.hit ? `${a.attacker} strikes ${a.target} for ${a.damage}.` : `${a.attacker} misses ${a.target}.`).join(' ')}`
+          : '';
+        const startFight = !combat && encounter?.status !== 'active' && roll?.skill === 'combat';
+        // Move to the next act right on schedule
+        const act = parseAct(ctx.act);
+        const actAdvanced = act < ACT_COUNT && turn >= actStartTurn((act + 1) as Act, targetTurnsFor(parseCampaignLength(ctx.campaignLength)));
+
+        return {
+          narrative: `${pick(SCENES, seed)} (Turn ${turn})${combat ? combatLine : outcomeLine}${startFight ? '\n\nA snarling **Cave Goblin** leaps from the shadows!' : ''}\n\n*"What do you seek?"* a voice echoes.`,
+          visual_prompt: "A dark corridor with glowing runes",
+          hp_current: hp,
+          gold: num(ctx.gold, 0) + effect.gold,
+          inventory: Array.isArray(ctx.inventory) ? ctx.inventory : [],
+          options: pick(OPTION_SETS, seed >>> 3),
+          ...(startFight ? {
+            encounter_start: { enemies: [{ name: "Cave Goblin", hp: 7, armor: 12, attack_bonus: 3, damage_die: 6 }] },
+          } : {}),
+          // A botched roll leaves a wound that keeps bleeding
+          ...(roll?.outcome === 'critfail' ? {
+            conditions_added: [{ name: "Bleeding", duration: 3, roll_modifier: 0, hp_per_turn: -1, roll_mode: "none", description: "A deep cut that will not close." }],
+          } : {}),
+          ...(actAdvanced ? { act_advanced: true } : {}),
+          xp_awarded: effect.xp,
+          game_over: hp <= 0,
+        };
+      }
+
+      case 'epilogue':
+        return {
+          epilogue_title: "The End of the Tale",
+          epilogue_text: `And so the adventure came to its conclusion. The echoes of ${name}'s deeds would linger long after they were gone.`,
+          ending_type: num(ctx.hp, 1) <= 0 ? 'death' : 'mysterious',
+          legacy: "A wanderer whose story became legend.",
+          visual_prompt: "A lone figure silhouetted against a sunset sky",
+        };
+
+      case 'summary': {
+        const actions = Array.isArray(ctx.actions) ? ctx.actions.filter(a => typeof a === 'string') : [];
+        const span = `turns ${num(ctx.fromTurn, 1)}-${num(ctx.toTurn, 1)}`;
+        return {
+          summary: actions.length > 0
+            ? `Over ${span}, ${name} chose to: ${actions.join('; ')}.`
+            : `Over ${span}, ${name} pressed on through the darkness.`,
+        };
+      }
+
+      default:
+        throw new Error(`Local provider has no structured script for task "${task}"`);
+    }
+  }
+}
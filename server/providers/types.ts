@@ -0,0 +1,37 @@
+import type { z } from "zod";
+
+// The distinct generation jobs the game asks a provider for
+export type AITask = 'name' | 'visuals' | 'campaign' | 'chat' | 'epilogue' | 'summary';
+
+export interface AIMessage {
+  role: 'user' | 'model';
+  parts: { text: string }[];
+}
+
+export interface TextRequest {
+  task: AITask;
+  prompt: string;
+  // Structured inputs the prompt was built from. Model-backed providers ignore this;
+  // the local provider scripts its output from it.
+  context?: Record<string, unknown>;
+}
+
+export interface JsonRequest<T> {
+  task: AITask;
+  schema: z.ZodType<T>;
+  contents: AIMessage[];
+  systemInstruction?: string;
+  context?: Record<string, unknown>;
+}
+
+// Interface every text/image backend implements
+export interface IAIProvider {
+  readonly name: string;
+  generateText(request: TextRequest): Promise<string>;
+  // Resolves with output already validated against request.schema
+  generateJson<T>(request: JsonRequest<T>): Promise<T>;
+  // Same as generateJson, but reports the raw JSON text through onText as it is produced
+  streamJson<T>(request: JsonRequest<T>, onText: (chunk: string) => void): Promise<T>;
+  // Resolves with base64 image data, or null if the provider produced no image
+  generateImage(prompt: string): Promise<string | null>;
+}
@@ -1,64 +1,142 @@
-import type { Express, Request } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./auth";
-import { insertAdventureSchema, insertAdventureTurnSchema } from "@shared/schema";
+import { insertAdventureSchema, insertAdventureTurnSchema, type Adventure } from "@shared/schema";
 import { getCharacterBonuses } from "@shared/game-bonuses";
+import { formatInventory, getStartingInventory, normalizeInventory } from "@shared/inventory";
+import {
+  createEncounter,
+  formatCombatRound,
+  formatEncounter,
+  parseEncounter,
+  type Encounter,
+} from "@shared/encounter";
+import { formatConditions, MAX_CONDITION_DURATION, normalizeConditions, type Condition } from "@shared/conditions";
+import {
+  autoEquip,
+  equipItemSchema,
+  formatEquipment,
+  getEquipmentBonuses,
+  normalizeEquipment,
+  slotsForItem,
+  sumBonuses,
+} from "@shared/equipment";
+import {
+  abilityScoresSchema,
+  DEFAULT_ABILITY_SCORES,
+  getCharacterProgress,
+  getMaxHp,
+  levelForXp,
+  pointBuyCost,
+  xpForNextLevel,
+  POINT_BUY_BUDGET,
+  POINT_BUY_MAX,
+  POINT_BUY_MIN,
+  type AbilityScores,
+} from "@shared/progression";
+import { DIFFICULTY_SETTINGS, parseDifficulty } from "@shared/difficulty";
+import { actStartTurn, advanceAct, getPacing, parseAct, targetTurnsFor, ACT_COUNT, type Act } from "@shared/acts";
+import { CAMPAIGN_LENGTH_SETTINGS, parseCampaignLength, WRAP_UP_TURNS } from "@shared/campaign-length";
+import { MAX_SLOT_NAME_LENGTH, planTierFor, SAVE_SLOTS } from "@shared/save-slots";
+import { saveFileSchema, toSaveFile, upgradeSaveFile } from "@shared/save-file";
+import { discardedRoll, PARTIAL_SUCCESS_MARGIN, ROLL_OUTCOME_LABELS, type RollRecord } from "@shared/dice";
+import { formatDiceRoll, MAX_NOTATION_LENGTH, parseDiceNotation, type DiceRollResult } from "@shared/dice-notation";
 import { z } from "zod";
-import { zodToJsonSchema } from "zod-to-json-schema";
-import { GoogleGenAI } from "@google/genai";
+import {
+  campaignResponseSchema,
+  chatResponseSchema,
+  epilogueResponseSchema,
+  type ChatResponse,
+} from "./ai-schemas";
+import {
+  adventureToTurnContext,
+  turnsToHistory,
+  sanitizeTurnResponse,
+  applyExperience,
+  normalizeClientContext,
+  parseAbilityScores,
+  parseTraitsUsed,
+  turnToAdventureState,
+  normalizeTurnSnapshot,
+  maxXpAfterTurn,
+  MAX_GOLD,
+  type TurnContext,
+  type TurnProgress,
+  type HistoryEntry,
+} from "./game-state";
+import { resolveActionRoll, resolveItemUse, applyDamageReduction, applyDifficulty, advanceConditions, applyRelentless } from "./rules";
+import { resolveCombatRound } from "./combat";
+import { createSeed, rollAbilityScores, rollDice } from "./dice";
+import { createAIProvider, type AIMessage } from "./providers";
+import { openEventStream, createFieldExtractor, type EventStream } from "./streaming";
+import { condenseMemory, formatStorySoFar, unsummarizedTurns } from "./memory";
+import { createShareToken, sharePath, toSharedAdventure } from "./share";
+import { buildStorybook, exportFilename, exportFormatValues, EXPORT_CONTENT_TYPES, renderEpub, renderHtml, renderMarkdown } from "./storybook";
 
 // Schema for adventure updates
+// HP, gold and inventory are only ever changed by the server-side turn pipeline. Status and
+// ending come from the pipeline, restart and rewind; the client can only abandon a run.
 const adventureUpdateSchema = z.object({
-  currentHp: z.number().optional(),
-  gold: z.number().optional(),
-  inventory: z.array(z.string()).optional(),
-  status: z.enum(['active', 'completed', 'abandoned']).optional(),
-  endingType: z.enum(['victory', 'death', 'limit_reached']).optional(),
-  lastImage: z.string().optional(),
+  status: z.literal('abandoned').optional(),
+  slotName: z.string().trim().max(MAX_SLOT_NAME_LENGTH).transform(name => name || null).nullable().optional(),
 });
 
-// Schema for creating a new turn
-const createTurnSchema = z.object({
-  playerAction: z.string().min(1),
-  narrative: z.string().min(1),
-  visualPrompt: z.string().optional(),
-  hpAfter: z.number(),
-  goldAfter: z.number(),
-  inventoryAfter: z.array(z.string()),
-  options: z.array(z.string()),
-  diceRoll: z.number().optional().nullable(),
+// Schema for creating an adventure: only what the player picks on the creation screen (the
+// campaign is generated client-side). HP, kit, progress, status and links are set by the server.
+const createAdventureSchema = insertAdventureSchema.pick({
+  characterName: true,
+  characterRace: true,
+  characterClass: true,
+  characterGender: true,
+  characterDescription: true,
+  campaignTitle: true,
+  campaignData: true,
+  themeSeeds: true,
 });
 
-// Schema for AI campaign generation response (structured output)
-const campaignResponseSchema = z.object({
-  title: z.string().describe("Campaign title"),
-  act1: z.string().describe("The Setup & Inciting Incident (1 sentence)"),
-  act2: z.string().describe("The Twist & Rising Action (1 sentence)"),
-  act3: z.string().describe("The Climax & Final Boss (1 sentence)"),
-  possible_endings: z.array(z.string()).describe("3 possible endings"),
-  world_backstory: z.string().describe("World description (3-4 sentences)"),
-  character_backstory: z.string().describe("Character's past and motivation (3-4 sentences)"),
+// Schema for playing a turn (the server generates and persists the outcome)
+// Dice are rolled server-side, so the client only sends the action
+const playTurnSchema = z.object({
+  action: z.string().trim().min(1).max(500),
 });
 
-// Schema for AI chat/turn generation response (structured output)
-const chatResponseSchema = z.object({
-  narrative: z.string().describe("Story text in 2nd person, 4-6 sentences with Markdown"),
-  visual_prompt: z.string().describe("Image prompt describing current scene"),
-  hp_current: z.number().describe("Current HP after this turn"),
-  gold: z.number().describe("Current gold after this turn"),
-  inventory: z.array(z.string()).describe("Current inventory items"),
-  options: z.array(z.string()).describe("3 action options for the player"),
-  game_over: z.boolean().describe("True if HP <= 0 or story ends"),
+// Schema for rewinding an adventure back to an earlier turn (kept, along with those before it)
+const rewindSchema = z.object({
+  turn: z.number().int().min(1),
 });
 
-// Schema for epilogue generation response (structured output)
-const epilogueResponseSchema = z.object({
-  epilogue_title: z.string().describe("A poetic title for the ending (e.g., 'The Dawn After Darkness')"),
-  epilogue_text: z.string().describe("2-3 paragraphs describing what happens after the story ends, written in past tense, reflecting on the character's journey and their ultimate fate"),
-  ending_type: z.enum(['victory', 'death', 'bittersweet', 'mysterious']).describe("The type of ending achieved"),
-  legacy: z.string().describe("A single sentence describing how the character will be remembered"),
-  visual_prompt: z.string().describe("A cinematic image prompt for the epilogue scene"),
+// Schema for forking an adventure into a new one that keeps turns up to and including `turn`
+const forkSchema = z.object({
+  turn: z.number().int().min(1),
+});
+
+// Schema for exporting an adventure as a storybook
+const exportSchema = z.object({
+  format: z.enum(exportFormatValues),
+});
+
+// Schema for the id-only form of the /api/ai/* endpoints used by signed-in players
+const storedAdventureSchema = z.object({
+  adventureId: z.string().min(1),
+});
+
+// Schema for a player dice command ("/roll 2d6+3")
+const diceRollSchema = z.object({
+  notation: z.string().trim().min(1).max(MAX_NOTATION_LENGTH),
+});
+
+// Dice results one turn's audit trail can hold (its own healing and combat rolls included)
+const MAX_TURN_DICE_ROLLS = 20;
+
+// Schema for generating a scene image; a signed-in player's image is saved on the turn it was made for
+const imageRequestSchema = z.object({
+  prompt: z.string().min(1),
+  adventureId: z.string().min(1).optional(),
+  turnNumber: z.number().int().min(1).optional(),
+}).refine(data => !data.adventureId || data.turnNumber !== undefined, {
+  message: "turnNumber is required with adventureId",
+  path: ['turnNumber'],
 });
 
 // Helper to get client IP address (for anonymous rate limiting)
@@ -98,8 +176,36 @@ async function checkIpRateLimit(ipAddress: string): Promise<{ allowed: boolean;
   return { allowed: true };
 }
 
-// Constants for subscription limits (not currently enforced - all logged-in users unlimited)
-const _FREE_USER_MAX_ADVENTURES = 3; // Reserved for future premium tier
+// Helper to check if the user has a free save slot for another adventure in play
+async function checkSaveSlots(userId: string): Promise<{ allowed: boolean; message?: string }> {
+  const [user, slots] = await Promise.all([storage.getUser(userId), storage.getSaveSlots(userId)]);
+  const limit = SAVE_SLOTS[planTierFor(user)];
+
+  if (slots.length >= limit) {
+    return {
+      allowed: false,
+      message: `All ${limit} save slots are in use. Finish or delete an adventure to start another.`
+    };
+  }
+
+  return { allowed: true };
+}
+
+// Scores are either a legal point buy or exactly the player's last server roll (see /api/abilities/roll)
+function isAllowedAbilityScores(scores: AbilityScores, rollSeed: string | undefined): boolean {
+  const values = Object.values(scores);
+  if (values.every(value => value >= POINT_BUY_MIN && value <= POINT_BUY_MAX) && pointBuyCost(scores) <= POINT_BUY_BUDGET) {
+    return true;
+  }
+  if (!rollSeed) return false;
+  const rolled = rollAbilityScores(rollSeed);
+  return (Object.keys(rolled) as (keyof AbilityScores)[]).every(ability => rolled[ability] === scores[ability]);
+}
+
+// Save files carry every scene image, so imports get a larger body limit than other routes
+const importBodyParser = express.json({ limit: '25mb' });
+
+// Constants for subscription limits
 const FREE_USER_HISTORY_LIMIT = 3;  // Free users see last 3 adventures in history list
 
 export async function registerRoutes(
@@ -153,7 +259,30 @@ export async function registerRoutes(
     }
   });
 
-  // Get active adventure (for "Continue" functionality)
+  // Save slots: adventures still in play, the pinned one and the plan's slot count
+  app.get('/api/adventures/slots', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const [user, slots] = await Promise.all([storage.getUser(userId), storage.getSaveSlots(userId)]);
+      const tier = planTierFor(user);
+
+      res.json({
+        slots,
+        currentAdventureId: user?.currentAdventureId ?? null,
+        tier,
+        limit: SAVE_SLOTS[tier],
+      });
+    } catch (error) {
+      console.error("Error fetching save slots:", error);
+      res.status(500).json({ message: "Failed to fetch save slots" });
+    }
+  });
+
+  // Get the pinned adventure (for "Continue" functionality)
   app.get('/api/adventures/active', isAuthenticated, async (req, res) => {
     try {
       const userId = req.user?.id;
@@ -200,8 +329,11 @@ export async function registerRoutes(
       // Get all turns for this adventure
       const turns = await storage.getAdventureTurns(adventure.id);
       
-      // Update last played timestamp
-      await storage.updateAdventure(id, {});
+      // Update last played timestamp and make it the one to continue next time
+      await Promise.all([
+        storage.updateAdventure(id, {}),
+        storage.setCurrentAdventure(userId, id),
+      ]);
       
       res.json({ adventure, turns });
     } catch (error) {
@@ -255,13 +387,51 @@ export async function registerRoutes(
         return res.status(401).json({ message: "Unauthorized" });
       }
 
-      // All logged-in users get unlimited adventures for now
-      // Premium tier limits can be added later if needed
+      // Each adventure in play takes a save slot
+      const slotCheck = await checkSaveSlots(userId);
+      if (!slotCheck.allowed) {
+        return res.status(403).json({ message: slotCheck.message });
+      }
 
-      // Validate request body
+      // Validate request body; unknown and server-owned fields are dropped
+      const characterResult = createAdventureSchema.safeParse(req.body);
+      if (!characterResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid adventure data", 
+          errors: characterResult.error.errors 
+        });
+      }
+      const character = characterResult.data;
+
+      const abilitiesResult = abilityScoresSchema.optional().safeParse(req.body?.abilityScores);
+      if (!abilitiesResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid ability scores", 
+          errors: abilitiesResult.error.errors 
+        });
+      }
+      const abilityScores = abilitiesResult.data ?? DEFAULT_ABILITY_SCORES;
+      if (!isAllowedAbilityScores(abilityScores, req.session.abilityRollSeed)) {
+        return res.status(400).json({ message: "Ability scores must be a point buy or your last roll" });
+      }
+
+      // Starting and max HP come from the class and CON, and the kit from the class, not the client
+      const maxHp = getMaxHp(character.characterClass, 1, abilityScores);
+      const inventory = getStartingInventory(character.characterClass);
       const validationResult = insertAdventureSchema.safeParse({
-        ...req.body,
+        ...character,
         userId,
+        difficulty: parseDifficulty(req.body?.difficulty),
+        campaignLength: parseCampaignLength(req.body?.campaignLength),
+        inventory,
+        equipment: autoEquip(inventory),
+        abilityScores,
+        xp: 0,
+        level: 1,
+        gold: 10,
+        currentHp: maxHp,
+        maxHp,
+        turnCount: 0,
         maxTurns: -1, // Unlimited turns for signed-in users
         status: 'active',
       });
@@ -274,6 +444,8 @@ export async function registerRoutes(
       }
 
       const adventure = await storage.createAdventure(validationResult.data);
+      await storage.setCurrentAdventure(userId, adventure.id);
+      delete req.session.abilityRollSeed; // A roll is used for one character only
       res.json(adventure);
     } catch (error) {
       console.error("Error creating adventure:", error);
@@ -281,7 +453,99 @@ export async function registerRoutes(
     }
   });
 
-  // Update adventure (status, HP, gold, inventory, etc.)
+  // Import adventure from a save file (see shared/save-file.ts) as a new adventure owned by the user
+  app.post('/api/adventures/import', isAuthenticated, importBodyParser, async (req, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const upgraded = upgradeSaveFile(req.body);
+      if (!upgraded.ok) {
+        return res.status(400).json({ message: upgraded.message });
+      }
+
+      const validationResult = saveFileSchema.safeParse(upgraded.file);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid save file", 
+          errors: validationResult.error.errors 
+        });
+      }
+
+      const { adventure, turns, summaries, images } = validationResult.data;
+
+      // A run that ended stays ended (a hardcore death can't come back through an edited file):
+      // death shows in the row or the latest turn's snapshot, and ended runs import as completed
+      const latestTurn = [...turns].sort((a, b) => b.turnNumber - a.turnNumber)[0];
+      const died = adventure.currentHp <= 0 || (latestTurn?.hpAfter ?? 1) <= 0 || adventure.endingType === 'death';
+      const ended = died || adventure.status === 'completed' || !!adventure.endingType;
+      const endingType = died ? 'death' : ended ? adventure.endingType ?? null : null;
+
+      // An old export of a hardcore run still in play would undo a later death (just like a
+      // fork from before it), so it comes back as a finished, read-only copy
+      const difficulty = parseDifficulty(adventure.difficulty);
+      const status = ended ? 'completed'
+        : adventure.status === 'abandoned' ? 'abandoned'
+        : DIFFICULTY_SETTINGS[difficulty].canRestart ? 'active' : 'completed';
+
+      if (status === 'active') {
+        const slotCheck = await checkSaveSlots(userId);
+        if (!slotCheck.allowed) {
+          return res.status(403).json({ message: slotCheck.message });
+        }
+      }
+
+      // Save files can be edited by hand, so derived numbers are recomputed and stored
+      // state normalized (item effects clamped) the same way the server does for its own adventures.
+      // XP can't exceed what the turns could have awarded, and turn snapshots get the same bounds
+      // since rewinding turns them back into live state.
+      const abilityScores = parseAbilityScores(adventure.abilityScores);
+      const xp = Math.max(0, Math.min(maxXpAfterTurn(adventure.turnCount ?? 0), adventure.xp ?? 0));
+      const level = levelForXp(xp);
+      const maxHp = getMaxHp(adventure.characterClass, level, abilityScores);
+      const inventory = normalizeInventory(adventure.inventory);
+      const latestImage = [...images].sort((a, b) => b.turnNumber - a.turnNumber)[0];
+
+      const imported = await storage.importAdventure(
+        insertAdventureSchema.parse({
+          ...adventure,
+          userId,
+          abilityScores,
+          xp,
+          level,
+          maxHp,
+          currentHp: Math.max(0, Math.min(adventure.currentHp, maxHp)),
+          gold: Math.max(0, Math.min(MAX_GOLD, adventure.gold ?? 0)),
+          inventory,
+          equipment: normalizeEquipment(adventure.equipment, inventory),
+          encounter: parseEncounter(adventure.encounter),
+          conditions: normalizeConditions(adventure.conditions),
+          traitsUsed: parseTraitsUsed(adventure.traitsUsed),
+          difficulty,
+          currentAct: parseAct(adventure.currentAct),
+          campaignLength: parseCampaignLength(adventure.campaignLength),
+          status,
+          endingType,
+          lastImage: latestImage?.image ?? null,
+        }),
+        turns.map(turn => normalizeTurnSnapshot(turn, adventure.characterClass, abilityScores)),
+        summaries,
+        images
+      );
+
+      if (imported.status === 'active') {
+        await storage.setCurrentAdventure(userId, imported.id);
+      }
+      res.json(imported);
+    } catch (error) {
+      console.error("Error importing adventure:", error);
+      res.status(500).json({ message: "Failed to import adventure" });
+    }
+  });
+
+  // Update adventure (abandon, slot name)
   app.patch('/api/adventures/:id', isAuthenticated, async (req, res) => {
     try {
       const userId = req.user?.id;
@@ -309,6 +573,11 @@ export async function registerRoutes(
         });
       }
 
+      // Ended adventures stay ended (a hardcore death is permanent)
+      if (validationResult.data.status && adventure.status !== 'active') {
+        return res.status(400).json({ message: "Only adventures in play can be abandoned" });
+      }
+
       const updatedAdventure = await storage.updateAdventure(id, validationResult.data);
       res.json(updatedAdventure);
     } catch (error) {
@@ -317,6 +586,60 @@ export async function registerRoutes(
     }
   });
 
+  // Equip an inventory item into a slot, or empty the slot with itemName: null
+  app.put('/api/adventures/:id/equipment', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { id } = req.params;
+      const adventure = await storage.getAdventure(id);
+      
+      if (!adventure) {
+        return res.status(404).json({ message: "Adventure not found" });
+      }
+
+      if (adventure.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const validationResult = equipItemSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid equipment data",
+          errors: validationResult.error.errors 
+        });
+      }
+
+      const { slot, itemName } = validationResult.data;
+      const { inventory, equipment } = adventureToTurnContext(adventure);
+
+      if (itemName !== null) {
+        const item = inventory.find(i => i.name.toLowerCase() === itemName.toLowerCase());
+        if (!item) {
+          return res.status(400).json({ message: "Item is not in the inventory" });
+        }
+        if (!slotsForItem(item).includes(slot)) {
+          return res.status(400).json({ message: `${item.name} can't be equipped there` });
+        }
+      }
+
+      // Equipping an item moves it out of any other slot it was in
+      const others = Object.fromEntries(
+        Object.entries(equipment).filter(([, name]) => name.toLowerCase() !== itemName?.toLowerCase())
+      );
+      const next = normalizeEquipment({ ...others, [slot]: itemName ?? undefined }, inventory);
+
+      await storage.updateAdventure(id, { equipment: next });
+      res.json({ equipment: next });
+    } catch (error) {
+      console.error("Error updating equipment:", error);
+      res.status(500).json({ message: "Failed to update equipment" });
+    }
+  });
+
   // Delete adventure
   app.delete('/api/adventures/:id', isAuthenticated, async (req, res) => {
     try {
@@ -325,27 +648,606 @@ export async function registerRoutes(
         return res.status(401).json({ message: "Unauthorized" });
       }
 
-      const { id } = req.params;
-      const adventure = await storage.getAdventure(id);
-      
-      if (!adventure) {
-        return res.status(404).json({ message: "Adventure not found" });
+      const { id } = req.params;
+      const adventure = await storage.getAdventure(id);
+      
+      if (!adventure) {
+        return res.status(404).json({ message: "Adventure not found" });
+      }
+
+      if (adventure.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      await storage.deleteAdventure(id);
+      res.json({ message: "Adventure deleted" });
+    } catch (error) {
+      console.error("Error deleting adventure:", error);
+      res.status(500).json({ message: "Failed to delete adventure" });
+    }
+  });
+
+  // Restart adventure (delete all turns and reset to turn 0)
+  app.post('/api/adventures/:id/restart', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { id } = req.params;
+      const adventure = await storage.getAdventure(id);
+      
+      if (!adventure) {
+        return res.status(404).json({ message: "Adventure not found" });
+      }
+
+      if (adventure.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (!DIFFICULTY_SETTINGS[parseDifficulty(adventure.difficulty)].canRestart) {
+        return res.status(403).json({ message: "Hardcore adventures can't be restarted" });
+      }
+
+      // Reopening an ended adventure puts it back in a save slot
+      if (adventure.status !== 'active') {
+        const slotCheck = await checkSaveSlots(userId);
+        if (!slotCheck.allowed) {
+          return res.status(403).json({ message: slotCheck.message });
+        }
+      }
+
+      const startingHp = getMaxHp(adventure.characterClass, 1, parseAbilityScores(adventure.abilityScores));
+
+      // A rewind to before the first turn: every turn, chapter summary and image goes and the
+      // state resets in one transaction, unless a turn was recorded since the adventure was read
+      const updatedAdventure = await storage.rewindAdventure(id, adventure.turnCount, 0, {
+        currentHp: startingHp,
+        maxHp: startingHp,
+        xp: 0,
+        level: 1,
+        gold: 10,
+        inventory: [],
+        equipment: {},
+        encounter: null,
+        conditions: [],
+        traitsUsed: [],
+        currentAct: 1,
+        status: 'active',
+        endingType: null,
+        epilogue: null,
+      });
+      if (!updatedAdventure) {
+        return res.status(409).json({ message: "Adventure was updated by another request" });
+      }
+
+      res.json({ adventure: updatedAdventure, message: "Adventure restarted" });
+    } catch (error) {
+      console.error("Error restarting adventure:", error);
+      res.status(500).json({ message: "Failed to restart adventure" });
+    }
+  });
+
+  // Rewind adventure to an earlier turn (later turns are deleted, state comes from that
+  // turn's snapshot and an ended adventure is reopened)
+  app.post('/api/adventures/:id/rewind', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { id } = req.params;
+      const adventure = await storage.getAdventure(id);
+      
+      if (!adventure) {
+        return res.status(404).json({ message: "Adventure not found" });
+      }
+
+      if (adventure.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (!DIFFICULTY_SETTINGS[parseDifficulty(adventure.difficulty)].canRestart) {
+        return res.status(403).json({ message: "Hardcore adventures can't be rewound" });
+      }
+
+      const validationResult = rewindSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid rewind data",
+          errors: validationResult.error.errors 
+        });
+      }
+
+      const { turn } = validationResult.data;
+      if (turn >= adventure.turnCount) {
+        return res.status(400).json({ message: "Can only rewind to an earlier turn" });
+      }
+
+      // Reopening an ended adventure puts it back in a save slot
+      if (adventure.status !== 'active') {
+        const slotCheck = await checkSaveSlots(userId);
+        if (!slotCheck.allowed) {
+          return res.status(403).json({ message: slotCheck.message });
+        }
+      }
+
+      const turns = await storage.getAdventureTurns(id);
+      const target = turns.find(t => t.turnNumber === turn);
+      if (!target) {
+        return res.status(404).json({ message: "Turn not found" });
+      }
+
+      const updatedAdventure = await storage.rewindAdventure(id, adventure.turnCount, turn, {
+        ...turnToAdventureState(adventure, target),
+        status: 'active',
+        endingType: null,
+        epilogue: null,
+      });
+      if (!updatedAdventure) {
+        return res.status(409).json({ message: "Adventure was updated by another request" });
+      }
+
+      res.json({ adventure: updatedAdventure, turns: turns.filter(t => t.turnNumber <= turn) });
+    } catch (error) {
+      console.error("Error rewinding adventure:", error);
+      res.status(500).json({ message: "Failed to rewind adventure" });
+    }
+  });
+
+  // Fork adventure: a new adventure with the same campaign and a copy of the turns (and
+  // chapter summaries) up to a chosen turn, linked back to its parent. The original is untouched.
+  app.post('/api/adventures/:id/fork', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { id } = req.params;
+      const adventure = await storage.getAdventure(id);
+      
+      if (!adventure) {
+        return res.status(404).json({ message: "Adventure not found" });
+      }
+
+      if (adventure.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // A branch from before a death would undo it just like a rewind
+      if (!DIFFICULTY_SETTINGS[parseDifficulty(adventure.difficulty)].canRestart) {
+        return res.status(403).json({ message: "Hardcore adventures can't be forked" });
+      }
+
+      const validationResult = forkSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid fork data",
+          errors: validationResult.error.errors 
+        });
+      }
+
+      const { turn } = validationResult.data;
+      const [turns, summaries, images] = await Promise.all([
+        storage.getAdventureTurns(id),
+        storage.getAdventureSummaries(id),
+        storage.getTurnImages(id),
+      ]);
+      const target = turns.find(t => t.turnNumber === turn);
+      if (!target) {
+        return res.status(404).json({ message: "Turn not found" });
+      }
+
+      const slotCheck = await checkSaveSlots(userId);
+      if (!slotCheck.allowed) {
+        return res.status(403).json({ message: slotCheck.message });
+      }
+
+      const { id: _id, createdAt, updatedAt, lastPlayedAt, ...base } = adventure;
+      const forked = await storage.forkAdventure(
+        insertAdventureSchema.parse({
+          ...base,
+          ...turnToAdventureState(adventure, target),
+          turnCount: turn,
+          status: 'active',
+          endingType: null,
+          epilogue: null,
+          slotName: null,
+          shareToken: null,
+          parentAdventureId: adventure.id,
+          forkedFromTurn: turn,
+        }),
+        turns.filter(t => t.turnNumber <= turn),
+        summaries.filter(summary => summary.toTurn <= turn),
+        images.filter(image => image.turnNumber <= turn)
+      );
+
+      const [forkedTurns] = await Promise.all([
+        storage.getAdventureTurns(forked.id),
+        storage.setCurrentAdventure(userId, forked.id),
+      ]);
+      res.json({ adventure: forked, turns: forkedTurns });
+    } catch (error) {
+      console.error("Error forking adventure:", error);
+      res.status(500).json({ message: "Failed to fork adventure" });
+    }
+  });
+
+  // Export adventure as a storybook: ?format=markdown | html | epub
+  app.get('/api/adventures/:id/export', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { id } = req.params;
+      const adventure = await storage.getAdventure(id);
+      
+      if (!adventure) {
+        return res.status(404).json({ message: "Adventure not found" });
+      }
+
+      if (adventure.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const validationResult = exportSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid export format",
+          errors: validationResult.error.errors 
+        });
+      }
+
+      const { format } = validationResult.data;
+      const [turns, images] = await Promise.all([
+        storage.getAdventureTurns(id),
+        storage.getTurnImages(id),
+      ]);
+      const book = buildStorybook(adventure, turns, images);
+      const content = format === 'epub' ? renderEpub(book) : format === 'html' ? renderHtml(book) : renderMarkdown(book);
+
+      res.set({
+        'Content-Type': EXPORT_CONTENT_TYPES[format].contentType,
+        'Content-Disposition': `attachment; filename="${exportFilename(book.title, EXPORT_CONTENT_TYPES[format].extension)}"`,
+      });
+      res.send(content);
+    } catch (error) {
+      console.error("Error exporting adventure:", error);
+      res.status(500).json({ message: "Failed to export adventure" });
+    }
+  });
+
+  // Download adventure as a save file that can be imported into any account
+  app.get('/api/adventures/:id/save-file', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { id } = req.params;
+      const adventure = await storage.getAdventure(id);
+      
+      if (!adventure) {
+        return res.status(404).json({ message: "Adventure not found" });
+      }
+
+      if (adventure.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const [turns, summaries, images] = await Promise.all([
+        storage.getAdventureTurns(id),
+        storage.getAdventureSummaries(id),
+        storage.getTurnImages(id),
+      ]);
+      const title = adventure.campaignTitle || adventure.characterName;
+
+      res.set('Content-Disposition', `attachment; filename="${exportFilename(title, 'gemrpg.json')}"`);
+      res.json(toSaveFile(adventure, turns, summaries, images));
+    } catch (error) {
+      console.error("Error exporting save file:", error);
+      res.status(500).json({ message: "Failed to export save file" });
+    }
+  });
+
+  // Share adventure: mint a public read-only link, or return the one it already has
+  app.post('/api/adventures/:id/share', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { id } = req.params;
+      const adventure = await storage.getAdventure(id);
+      
+      if (!adventure) {
+        return res.status(404).json({ message: "Adventure not found" });
+      }
+
+      if (adventure.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const shareToken = adventure.shareToken ?? createShareToken();
+      if (!adventure.shareToken) {
+        await storage.updateAdventure(id, { shareToken });
+      }
+      res.json({ shareToken, path: sharePath(shareToken) });
+    } catch (error) {
+      console.error("Error sharing adventure:", error);
+      res.status(500).json({ message: "Failed to share adventure" });
+    }
+  });
+
+  // Revoke adventure's share link; the old link stops working
+  app.delete('/api/adventures/:id/share', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { id } = req.params;
+      const adventure = await storage.getAdventure(id);
+      
+      if (!adventure) {
+        return res.status(404).json({ message: "Adventure not found" });
+      }
+
+      if (adventure.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      await storage.updateAdventure(id, { shareToken: null });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      res.status(500).json({ message: "Failed to revoke share link" });
+    }
+  });
+
+  // ============== TURN ROUTES ==============
+
+  // Load an adventure owned by the signed-in user for the /api/ai/* endpoints, which are
+  // also open to anonymous players. Sends the error response and returns undefined on failure.
+  async function loadOwnedAdventure(req: Request, res: Response, id: string): Promise<Adventure | undefined> {
+    const userId = req.isAuthenticated() ? req.user?.id : undefined;
+    if (!userId) {
+      res.status(401).json({ message: "Unauthorized" });
+      return undefined;
+    }
+
+    const adventure = await storage.getAdventure(id);
+    if (!adventure) {
+      res.status(404).json({ message: "Adventure not found" });
+      return undefined;
+    }
+
+    if (adventure.userId !== userId) {
+      res.status(403).json({ message: "Access denied" });
+      return undefined;
+    }
+
+    if (!adventureToTurnContext(adventure).endgame?.possible_endings) {
+      res.status(400).json({ message: "Missing campaign data" });
+      return undefined;
+    }
+
+    return adventure;
+  }
+
+  // Stored-adventure form of /api/ai/chat: validates the action and plays it through runTurn
+  async function loadStoredTurn(req: Request, res: Response): Promise<{ adventure: Adventure; action: string } | undefined> {
+    const validationResult = storedAdventureSchema
+      .merge(playTurnSchema)
+      .safeParse({ adventureId: req.body.adventureId, action: req.body.userInput });
+    if (!validationResult.success) {
+      res.status(400).json({
+        message: "Invalid turn data",
+        errors: validationResult.error.errors
+      });
+      return undefined;
+    }
+
+    const adventure = await loadOwnedAdventure(req, res, validationResult.data.adventureId);
+    if (!adventure) {
+      return undefined;
+    }
+
+    if (adventure.status !== 'active') {
+      res.status(400).json({ message: "Adventure is not active" });
+      return undefined;
+    }
+
+    return { adventure, action: validationResult.data.action };
+  }
+
+  // Generate the next scene for a stored adventure and persist it in one step.
+  // Returns undefined if the adventure moved on while the turn was being generated.
+  async function runTurn(
+    adventure: Adventure,
+    action: string,
+    handlers: { onRoll?: (roll: RollRecord) => void; onNarrative?: (text: string) => void } = {}
+  ): Promise<{ response: ChatResponse & TurnProgress & Omit<ResolvedTurn, 'response' | 'progress'>; turnNumber: number } | undefined> {
+    // Older chapters are sent as summaries, only the recent turns verbatim
+    const [turns, summaries] = await Promise.all([
+      storage.getAdventureTurns(adventure.id),
+      storage.getAdventureSummaries(adventure.id),
+    ]);
+    const context: TurnContext = {
+      ...adventureToTurnContext(adventure),
+      storySoFar: formatStorySoFar(summaries),
+    };
+    const history: HistoryEntry[] = [
+      ...turnsToHistory(unsummarizedTurns(turns, summaries)),
+      { role: 'user', parts: [{ text: action }] },
+    ];
+
+    // The intro turn is narration only; later actions get a d20 when the rules call for one
+    const roll = adventure.turnCount > 0 ? resolveActionRoll(action, context) : null;
+    if (roll) {
+      handlers.onRoll?.(roll);
+    }
+
+    const { response, progress, ...state } = await resolveTurn(context, history, action, roll, handlers.onNarrative);
+    const newTurnNumber = adventure.turnCount + 1;
+
+    const result = await storage.recordTurn(
+      {
+        adventureId: adventure.id,
+        turnNumber: newTurnNumber,
+        playerAction: action,
+        narrative: response.narrative,
+        visualPrompt: response.visual_prompt || null,
+        hpAfter: response.hp_current,
+        xpAfter: progress.xp,
+        goldAfter: response.gold,
+        inventoryAfter: response.inventory,
+        encounterAfter: state.encounter,
+        actAfter: state.act,
+        conditionsAfter: state.conditions,
+        traitsUsedAfter: state.traitsUsed,
+        options: response.options,
+        diceRoll: roll?.raw ?? null,
+        rollSeed: roll?.seed ?? null,
+        rollModifier: roll?.modifier ?? null,
+        rollOutcome: roll?.outcome ?? null,
+        rollSkill: roll?.skill ?? null,
+        rollDc: roll?.dc ?? null,
+        rollMode: roll?.mode ?? null,
+        rollDiscarded: roll ? discardedRoll(roll) : null,
+        diceRolls: state.diceRolls,
+      },
+      {
+        currentHp: response.hp_current,
+        maxHp: progress.max_hp,
+        xp: progress.xp,
+        level: progress.level,
+        gold: response.gold,
+        inventory: response.inventory,
+        equipment: normalizeEquipment(context.equipment, response.inventory), // Lost items come off
+        encounter: state.encounter,
+        currentAct: state.act,
+        conditions: state.conditions,
+        traitsUsed: state.traitsUsed,
+        ...(response.game_over ? {
+          status: 'completed',
+          endingType: response.hp_current <= 0 ? 'death' : 'victory',
+        } : {}),
+      }
+    );
+
+    if (!result) {
+      return undefined;
+    }
+
+    // Condense older turns in the background; the player never waits on it
+    condenseMemory(ai, result.adventure).catch(error => {
+      console.error("Error condensing adventure memory:", error);
+    });
+
+    return { response: { ...response, ...progress, ...state }, turnNumber: newTurnNumber };
+  }
+
+  // Roll ability scores (4d6 drop lowest) for character creation. The seed stays in the
+  // session so creating the adventure can check the scores really came from this roll.
+  app.post('/api/abilities/roll', isAuthenticated, async (req, res) => {
+    try {
+      const seed = createSeed();
+      req.session.abilityRollSeed = seed;
+      res.json({ abilityScores: rollAbilityScores(seed) });
+    } catch (error) {
+      console.error("Error rolling ability scores:", error);
+      res.status(500).json({ message: "Failed to roll ability scores" });
+    }
+  });
+
+  // Roll a dice expression for a trial player. Nothing is recorded; saved adventures
+  // use /api/adventures/:id/roll so the roll joins the turn's audit trail.
+  app.post('/api/dice/roll', async (req, res) => {
+    try {
+      const validationResult = diceRollSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid dice roll",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      const expression = parseDiceNotation(validationResult.data.notation);
+      if (!expression) {
+        return res.status(400).json({ message: "Invalid dice notation (try 2d6+3, 4d6kh3 or 1d20 adv)" });
+      }
+
+      res.json({ roll: rollDice(expression, '/roll') });
+    } catch (error) {
+      console.error("Error rolling dice:", error);
+      res.status(500).json({ message: "Failed to roll dice" });
+    }
+  });
+
+  // Roll a dice expression in a saved adventure and record it on the latest turn
+  app.post('/api/adventures/:id/roll', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const { id } = req.params;
+      const adventure = await storage.getAdventure(id);
+      
+      if (!adventure) {
+        return res.status(404).json({ message: "Adventure not found" });
+      }
+
+      if (adventure.userId !== userId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (adventure.status !== 'active') {
+        return res.status(400).json({ message: "Adventure is not active" });
+      }
+
+      const validationResult = diceRollSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid dice roll",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      const expression = parseDiceNotation(validationResult.data.notation);
+      if (!expression) {
+        return res.status(400).json({ message: "Invalid dice notation (try 2d6+3, 4d6kh3 or 1d20 adv)" });
       }
 
-      if (adventure.userId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
+      const roll = rollDice(expression, '/roll');
+      const latestTurn = await storage.getLatestTurn(adventure.id);
+      const added = latestTurn ? await storage.addTurnDiceRoll(latestTurn.id, roll, MAX_TURN_DICE_ROLLS) : 'missing';
+      if (added === 'missing') {
+        return res.status(409).json({ message: "The turn to record this roll on has changed. Reload and try again." });
+      }
+      if (added === 'full') {
+        return res.status(429).json({ message: "That's enough rolls for this turn. Play your next move first." });
       }
 
-      await storage.deleteAdventure(id);
-      res.json({ message: "Adventure deleted" });
+      res.json({ roll });
     } catch (error) {
-      console.error("Error deleting adventure:", error);
-      res.status(500).json({ message: "Failed to delete adventure" });
+      console.error("Error rolling dice:", error);
+      res.status(500).json({ message: "Failed to roll dice" });
     }
   });
 
-  // Restart adventure (delete all turns and reset to turn 0)
-  app.post('/api/adventures/:id/restart', isAuthenticated, async (req, res) => {
+  // Play a turn: generate the next scene from stored state and persist it in one step
+  app.post('/api/adventures/:id/play', isAuthenticated, async (req, res) => {
     try {
       const userId = req.user?.id;
       if (!userId) {
@@ -363,30 +1265,38 @@ export async function registerRoutes(
         return res.status(403).json({ message: "Access denied" });
       }
 
-      // Delete all turns for this adventure
-      await storage.deleteAdventureTurns(id);
+      if (adventure.status !== 'active') {
+        return res.status(400).json({ message: "Adventure is not active" });
+      }
 
-      // Reset adventure state
-      const updatedAdventure = await storage.updateAdventure(id, {
-        turnCount: 0,
-        currentHp: 30,
-        gold: 10,
-        inventory: [],
-        status: 'active',
-        endingType: null,
-      });
+      const validationResult = playTurnSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid turn data",
+          errors: validationResult.error.errors 
+        });
+      }
 
-      res.json({ adventure: updatedAdventure, message: "Adventure restarted" });
+      if (!adventureToTurnContext(adventure).endgame?.possible_endings) {
+        return res.status(400).json({ message: "Missing campaign data" });
+      }
+
+      const result = await runTurn(adventure, validationResult.data.action);
+      if (!result) {
+        return res.status(409).json({ message: "Adventure was updated by another request" });
+      }
+
+      res.json(result);
     } catch (error) {
-      console.error("Error restarting adventure:", error);
-      res.status(500).json({ message: "Failed to restart adventure" });
+      console.error("Error playing turn:", error);
+      res.status(500).json({ message: "Failed to play turn" });
     }
   });
 
-  // ============== TURN ROUTES ==============
-
-  // Save a new turn
-  app.post('/api/adventures/:id/turn', isAuthenticated, async (req, res) => {
+  // Streaming variant of /play: sends the roll, then narrative text as it is generated,
+  // then the validated turn once it has been saved (Server-Sent Events)
+  app.post('/api/adventures/:id/play/stream', isAuthenticated, async (req, res) => {
+    let stream: EventStream | null = null;
     try {
       const userId = req.user?.id;
       if (!userId) {
@@ -408,8 +1318,7 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Adventure is not active" });
       }
 
-      // Validate turn data
-      const validationResult = createTurnSchema.safeParse(req.body);
+      const validationResult = playTurnSchema.safeParse(req.body);
       if (!validationResult.success) {
         return res.status(400).json({ 
           message: "Invalid turn data",
@@ -417,35 +1326,31 @@ export async function registerRoutes(
         });
       }
 
-      const turnData = validationResult.data;
-      const newTurnNumber = adventure.turnCount + 1;
-
-      // Create the turn
-      const turn = await storage.createTurn({
-        adventureId: id,
-        turnNumber: newTurnNumber,
-        playerAction: turnData.playerAction,
-        narrative: turnData.narrative,
-        visualPrompt: turnData.visualPrompt || null,
-        hpAfter: turnData.hpAfter,
-        goldAfter: turnData.goldAfter,
-        inventoryAfter: turnData.inventoryAfter,
-        options: turnData.options,
-        diceRoll: turnData.diceRoll ?? null,
-      });
+      if (!adventureToTurnContext(adventure).endgame?.possible_endings) {
+        return res.status(400).json({ message: "Missing campaign data" });
+      }
 
-      // Update adventure state
-      await storage.updateAdventure(id, {
-        turnCount: newTurnNumber,
-        currentHp: turnData.hpAfter,
-        gold: turnData.goldAfter,
-        inventory: turnData.inventoryAfter,
+      const events = openEventStream(res);
+      stream = events;
+      const result = await runTurn(adventure, validationResult.data.action, {
+        onRoll: roll => events.send('roll', roll),
+        onNarrative: text => events.send('narrative', { text }),
       });
 
-      res.json({ turn, turnNumber: newTurnNumber });
+      if (!result) {
+        events.send('error', { message: "Adventure was updated by another request" });
+      } else {
+        events.send('done', result);
+      }
+      events.close();
     } catch (error) {
-      console.error("Error saving turn:", error);
-      res.status(500).json({ message: "Failed to save turn" });
+      console.error("Error streaming turn:", error);
+      if (stream) {
+        stream.send('error', { message: "Failed to play turn" });
+        stream.close();
+      } else {
+        res.status(500).json({ message: "Failed to play turn" });
+      }
     }
   });
 
@@ -479,6 +1384,80 @@ export async function registerRoutes(
     }
   });
 
+  // ============== SHARE ROUTES (Public, read-only) ==============
+
+  // Shared adventure replay: story, rolls and epilogue, no owner data
+  app.get('/api/share/:token', async (req, res) => {
+    try {
+      const { token } = req.params;
+      const adventure = await storage.getAdventureByShareToken(token);
+      
+      if (!adventure) {
+        return res.status(404).json({ message: "Shared adventure not found" });
+      }
+
+      const [turns, imageTurns] = await Promise.all([
+        storage.getAdventureTurns(adventure.id),
+        storage.getTurnImageNumbers(adventure.id),
+      ]);
+      res.json(toSharedAdventure(adventure, turns, imageTurns, token));
+    } catch (error) {
+      console.error("Error fetching shared adventure:", error);
+      res.status(500).json({ message: "Failed to fetch shared adventure" });
+    }
+  });
+
+  // Shared adventure's last scene image (the share page cover and OpenGraph image)
+  app.get('/api/share/:token/image', async (req, res) => {
+    try {
+      const adventure = await storage.getAdventureByShareToken(req.params.token);
+      
+      if (!adventure || !adventure.lastImage) {
+        return res.status(404).json({ message: "No image available" });
+      }
+
+      // The cover changes with every new scene, so caches revalidate against the ETag res.send sets
+      const imageBuffer = Buffer.from(adventure.lastImage, 'base64');
+      res.set({
+        'Content-Type': 'image/jpeg',
+        'Content-Length': imageBuffer.length,
+        'Cache-Control': 'public, no-cache',
+      });
+      res.send(imageBuffer);
+    } catch (error) {
+      console.error("Error serving shared image:", error);
+      res.status(500).json({ message: "Failed to serve image" });
+    }
+  });
+
+  // Shared adventure's scene image for one turn
+  app.get('/api/share/:token/images/:turn', async (req, res) => {
+    try {
+      const adventure = await storage.getAdventureByShareToken(req.params.token);
+      const turnNumber = parseInt(req.params.turn, 10);
+      const image = adventure && Number.isInteger(turnNumber)
+        ? await storage.getTurnImage(adventure.id, turnNumber)
+        : undefined;
+
+      if (!image) {
+        return res.status(404).json({ message: "No image available" });
+      }
+
+      // A rewind and replay can swap the image under the same URL, so caches revalidate
+      // against the ETag res.send sets instead of keeping it for a fixed time
+      const imageBuffer = Buffer.from(image.image, 'base64');
+      res.set({
+        'Content-Type': 'image/jpeg',
+        'Content-Length': imageBuffer.length,
+        'Cache-Control': 'public, no-cache',
+      });
+      res.send(imageBuffer);
+    } catch (error) {
+      console.error("Error serving shared image:", error);
+      res.status(500).json({ message: "Failed to serve image" });
+    }
+  });
+
   // ============== RATE LIMIT ROUTES (for anonymous users) ==============
 
   app.get('/api/rate-limit/status', async (req, res) => {
@@ -567,12 +1546,9 @@ export async function registerRoutes(
 
   // ============== AI PROXY ROUTES (Server-side Gemini calls) ==============
   
-  const GEMINI_API_KEY = process.env.GEMINI_API_KEY || "";
-  const MODEL_TEXT = "gemini-2.0-flash";
-  const MODEL_IMAGE = "gemini-2.5-flash-image";
-  
-  // Initialize Google GenAI SDK
-  const genAI = GEMINI_API_KEY ? new GoogleGenAI({ apiKey: GEMINI_API_KEY }) : null;
+  // Text/JSON/image backend (Gemini, or the deterministic local provider for offline play)
+  const ai = createAIProvider();
+  console.log(`[AI] Using ${ai.name} provider`);
 
   // AI Logging helper
   function logAI(role: string, status: 'start' | 'done' | 'error', startTime?: number) {
@@ -594,28 +1570,6 @@ export async function registerRoutes(
     }
   }
 
-  // Helper to call Gemini text API using SDK
-  async function callGemini(prompt: string, jsonMode = false): Promise<string> {
-    if (!genAI) {
-      throw new Error("GEMINI_API_KEY not configured");
-    }
-    
-    const response = await genAI.models.generateContent({
-      model: MODEL_TEXT,
-      contents: [
-        {
-          role: 'user',
-          parts: [{ text: prompt }],
-        },
-      ],
-      config: jsonMode ? {
-        responseMimeType: "application/json",
-      } : undefined,
-    });
-    
-    return response.text || "";
-  }
-
   // Generate character name
   app.post('/api/ai/name', async (req, res) => {
     const startTime = Date.now();
@@ -623,15 +1577,10 @@ export async function registerRoutes(
     
     try {
       const { gender, race, class: charClass } = req.body;
-      
-      if (!GEMINI_API_KEY) {
-        const names = ["Thorgar", "Elara", "Kaelen", "Nyx", "Valen", "Sylas", "Aria", "Dorn"];
-        return res.json({ name: names[Math.floor(Math.random() * names.length)] });
-      }
 
       logAI(role, 'start');
       const prompt = `Generate a SINGLE creative fantasy name for a ${gender} ${race} ${charClass}. Output ONLY the name (e.g., "Thorgar"). No text like "Here is a name:".`;
-      const text = await callGemini(prompt, false);
+      const text = await ai.generateText({ task: 'name', prompt, context: { gender, race, class: charClass } });
       const name = text.replace(/["']/g, "").trim() || "Adventurer";
       
       logAI(role, 'done', startTime);
@@ -649,18 +1598,8 @@ export async function registerRoutes(
     
     try {
       const { name, gender, race, class: charClass, customInstructions } = req.body;
-      
-      if (!GEMINI_API_KEY || !genAI) {
-        return res.json({
-          title: "The Shadow of the Void",
-          act1: "You awaken in a cold, dark cell with no memory of how you arrived.",
-          act2: "A mysterious artifact whispers to you, promising power at a terrible cost.",
-          act3: "You must choose between saving the realm or becoming its new tyrant.",
-          possible_endings: ["Hero", "Tyrant", "Martyr"],
-          world_backstory: "The world of Aethelgard is crumbling under the weight of an ancient curse.",
-          character_backstory: `${name} was once a respected ${charClass} before the darkness fell.`
-        });
-      }
+      const campaignLength = parseCampaignLength(req.body?.campaignLength);
+      const length = CAMPAIGN_LENGTH_SETTINGS[campaignLength];
 
       logAI(role, 'start');
       const prompt = `You are a master RPG Architect specializing in immersive storytelling and character-driven narratives.
@@ -675,6 +1614,8 @@ export async function registerRoutes(
 
       **Campaign Theme:** "${customInstructions || 'dark fantasy adventure'}"
 
+      **Campaign Length:** ${length.label}, about ${length.targetTurns} turns. Scope the story as ${length.scope}. Acts 1 and 2 take roughly 30% and 45% of the turns, Act 3 the rest.
+
       **Requirements:**
 
       1. **Campaign Title:** Create an evocative title that hints at the central conflict or mystery
@@ -703,17 +1644,12 @@ export async function registerRoutes(
       Be specific with names, locations, and factions. 
       Create hooks that make the player care personally about the outcome.`;
 
-      const response = await genAI.models.generateContent({
-        model: MODEL_TEXT,
+      const campaign = await ai.generateJson({
+        task: 'campaign',
+        schema: campaignResponseSchema,
         contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: zodToJsonSchema(campaignResponseSchema),
-        },
+        context: { name, gender, race, class: charClass, customInstructions, campaignLength },
       });
-
-      const text = response.text || "";
-      const campaign = campaignResponseSchema.parse(JSON.parse(text));
       
       logAI(role, 'done', startTime);
       res.json(campaign);
@@ -739,10 +1675,6 @@ export async function registerRoutes(
     
     try {
       const { gender, race, class: charClass } = req.body;
-      
-      if (!GEMINI_API_KEY) {
-        return res.json({ description: `A ${gender} ${race} ${charClass} standing in a dimly lit dungeon.` });
-      }
 
       logAI(role, 'start');
       const prompt = `You are a visual concept artist creating a character description for AI image generation in a dark fantasy RPG setting.
@@ -769,7 +1701,7 @@ Generate a precise, vivid visual description (60-80 words) optimized for consist
 "Male human with broad shoulders and battle-scarred tan skin, square jaw. Short-cropped black hair with gray at temples. Piercing steel-blue eyes, jagged scar across left cheek. Wears battered plate armor with crimson wolf sigil, dark leather underneath. Heavy greatsword with notched blade. Thick beard braided with iron rings. Weathered face shows years of combat."
 "Female elf with lithe athletic build, pale porcelain skin, sharp angular features. Long silver-white hair flowing past shoulders, adorned with crystal beads. Luminous violet eyes, otherworldly gaze. Pointed ears visible. Wears deep purple robes embroidered with silver arcane runes, pointed hood. Carries gnarled oak staff topped with glowing sapphire. Slender hands bear mystical tattoos."
 "Male half-orc with towering muscular frame, gray-green skin, prominent lower tusks. Bald head with ritual scars across scalp. Fierce amber eyes beneath heavy brow. Wears crude iron plate armor with bone ornaments, fur shoulder pads. Massive double-bladed axe strapped to back. Battle-worn, intimidating presence."`;
-      const description = await callGemini(prompt, false);
+      const description = await ai.generateText({ task: 'visuals', prompt, context: { gender, race, class: charClass } });
       
       logAI(role, 'done', startTime);
       res.json({ description });
@@ -780,53 +1712,108 @@ Generate a precise, vivid visual description (60-80 words) optimized for consist
     }
   });
 
-  // Main chat/turn generation
-  // Note: Rate limiting is done at game START (/api/rate-limit/track), not per-turn
-  // This allows players to finish games they've already started
-  app.post('/api/ai/chat', async (req, res) => {
+  // Rules-adjusted result of one turn, shared by the stored and anonymous turn paths
+  interface ResolvedTurn {
+    response: ChatResponse;
+    progress: TurnProgress;
+    encounter: Encounter | null;
+    conditions: Condition[];
+    traitsUsed: string[];
+    act: Act;
+    roll: RollRecord | null; // With any racial trait that fired after the roll
+    diceRolls: DiceRollResult[]; // Notation rolls made this turn (healing)
+  }
+
+  // Generate a turn and apply the server's rules to the model output. A healing item is
+  // used up first. In a fight the encounter engine resolves the round next and its HP
+  // result is final; otherwise armor soaks damage. Conditions then tick, the difficulty
+  // mode scales HP loss, a Relentless character may cheat death, values are clamped and
+  // XP is added (which may level the character up).
+  async function resolveTurn(
+    context: TurnContext,
+    history: HistoryEntry[],
+    userInput: string | undefined,
+    roll: RollRecord | null,
+    onNarrative?: (text: string) => void
+  ): Promise<ResolvedTurn> {
+    const used = userInput ? resolveItemUse(userInput, context) : null;
+    const current: TurnContext = used
+      ? { ...context, hp: used.hp, inventory: used.inventory, itemUse: used.use }
+      : context;
+
+    const active = current.encounter?.status === 'active' ? current.encounter : null;
+    const combat = active && roll && userInput ? resolveCombatRound(active, userInput, roll, current) : undefined;
+
+    const generated = await generateTurn({ ...current, combat }, history, userInput, roll, onNarrative);
+    const adjusted = combat
+      ? { ...generated, hp_current: combat.hp, game_over: generated.game_over || combat.hp <= 0 }
+      : applyDamageReduction(generated, current.hp, current);
+
+    // A new fight can only open once the last one is over
+    let encounter = combat?.encounter ?? active;
+    if (encounter?.status !== 'active' && adjusted.encounter_start) {
+      encounter = createEncounter(adjusted.encounter_start) ?? encounter;
+    }
+
+    const upkeep = advanceConditions(adjusted, current.conditions);
+    const relentless = applyRelentless(applyDifficulty(upkeep.response, current.hp, current.difficulty), current);
+    if (relentless.response.hp_current > 0 && encounter?.status === 'lost') {
+      encounter = { ...encounter, status: 'active' }; // Still standing, so still fighting
+    }
+
+    const { response, progress } = applyExperience(
+      sanitizeTurnResponse(relentless.response, current.maxHp),
+      { className: current.class, abilities: current.abilities, xp: current.xp, maxHp: current.maxHp }
+    );
+    return {
+      response,
+      progress,
+      encounter,
+      conditions: upkeep.conditions,
+      traitsUsed: relentless.traitsUsed,
+      act: advanceAct(current.act, current.turn > 0 && response.act_advanced),
+      roll: roll && relentless.applied ? { ...roll, traits: [...(roll.traits ?? []), relentless.applied] } : roll,
+      diceRolls: used?.use.roll ? [used.use.roll] : [],
+    };
+  }
+
+  // Generate the next turn from a prompt context and the conversation so far.
+  // Shared by the anonymous /api/ai/chat proxy and the persisted turn pipeline.
+  async function generateTurn(
+    context: TurnContext,
+    history: HistoryEntry[],
+    userInput?: string,
+    roll?: RollRecord | null,
+    onNarrative?: (text: string) => void
+  ): Promise<ChatResponse> {
     const startTime = Date.now();
     const role = "Dungeon Master";
-    
-    try {
-      const { history, context, userInput, diceRoll } = req.body;
-      
-      if (!GEMINI_API_KEY) {
-        const turnCount = (context?.turn || 0) + 1;
-        return res.json({
-          narrative: `You venture deeper into the darkness. The air grows colder. (Turn ${turnCount})\n\n*"What do you seek?"* a voice echoes.`,
-          hp_current: context?.hp || 30,
-          gold: (context?.gold || 0) + Math.floor(Math.random() * 5),
-          inventory: context?.inventory || [],
-          options: ["Search the area", "Call out", "Draw weapon"],
-          game_over: false,
-          visual_prompt: "A dark corridor with glowing runes"
-        });
-      }
-
-      const turnCount = (context?.turn || 0) + 1;
-      const maxTurns = context?.maxTurns || 5;
-      
-      // Block if over turn limit (for anonymous users)
-      if (maxTurns > 0 && turnCount > maxTurns) {
-        return res.status(403).json({
-          message: "Turn limit reached. Sign in for unlimited turns!",
-          narrative: "Your free trial has ended. Sign in to continue your adventure!",
-          hp_current: context?.hp || 30,
-          gold: context?.gold || 0,
-          inventory: context?.inventory || [],
-          options: [],
-          game_over: true
-        });
-      }
 
-      const c = context?.endgame;
-      if (!c || !c.possible_endings) {
-        return res.status(400).json({ message: "Missing campaign data" });
-      }
+    const c = context.endgame;
+    if (!c) {
+      throw new Error("Missing campaign data");
+    }
 
-      logAI(role, 'start');
-      
-      const systemPrompt = `You are an expert Dungeon Master crafting an immersive RPG experience.
+    logAI(role, 'start');
+
+    const progress = getCharacterProgress(context.class, context.abilities, context.xp);
+    const nextLevelXp = xpForNextLevel(progress.level);
+    const difficulty = DIFFICULTY_SETTINGS[context.difficulty];
+    const targetTurns = targetTurnsFor(context.campaignLength);
+    const pacing = getPacing(context.act, context.turn, targetTurns);
+    const combat = context.combat;
+    const combatSection = combat ? `
+   **COMBAT ROUND ${combat.round.round} - ALREADY RESOLVED BY THE RULES ENGINE (narrate exactly this, do not change any number):**
+${formatCombatRound(combat.round)}
+   - Enemies now: ${formatEncounter(combat.encounter)}
+   - ${combat.encounter.status === 'won' ? 'All enemies are defeated - the fight is OVER' : combat.encounter.status === 'fled' ? 'The player escaped - the fight is OVER' : combat.encounter.status === 'lost' ? 'The player has fallen' : 'The fight continues - offer combat options (attack, a class ability, flee)'}
+   - Set hp_current to exactly ${combat.hp}
+` : context.encounter?.status === 'active' ? `
+   - A fight is active: ${formatEncounter(context.encounter)}
+` : '';
+    const damageReduction = sumBonuses(getEquipmentBonuses(context.equipment || {}, context.inventory || []).damageReduction);
+
+    const systemPrompt = `You are an expert Dungeon Master crafting an immersive RPG experience.
 
 **CAMPAIGN CONTEXT:**
 - Title: "${c.title}"
@@ -835,6 +1822,7 @@ Generate a precise, vivid visual description (60-80 words) optimized for consist
 - Act 2: ${c.act2}
 - Act 3: ${c.act3}
 - Possible Endings: ${c.possible_endings.join(' | ')}
+- **Current: Act ${context.act} of ${ACT_COUNT}**
 
 **WORLD BACKSTORY:**
 ${c.world_backstory || 'A mysterious realm shrouded in darkness and ancient magic.'}
@@ -844,13 +1832,23 @@ ${c.world_backstory || 'A mysterious realm shrouded in darkness and ancient magi
 - Gender: ${context.gender}
 - Role: ${context.race} ${context.class}
 - Visual Features: ${context.characterDescription}
-- Current HP: ${context.hp}
+- Level: ${progress.level} (XP ${progress.xp}${nextLevelXp !== null ? `, next level at ${nextLevelXp}` : ', max level'})
+- Current HP: ${context.hp} / ${context.maxHp}
 - Gold: ${context.gold}
-- Inventory: ${(context.inventory || []).length > 0 ? (context.inventory || []).join(', ') : 'Empty'}
+- Inventory: ${formatInventory(context.inventory || [])}
+- Equipped: ${formatEquipment(context.equipment || {}, context.inventory || [])}${damageReduction > 0 ? ` (damage reduction ${damageReduction})` : ''}
+- Conditions: ${formatConditions(context.conditions || [])}
+${context.itemUse ? `- Just used: ${context.itemUse.item}, restoring ${context.itemUse.healed} HP${context.itemUse.roll ? ` (${formatDiceRoll(context.itemUse.roll)})` : ''}. HP and inventory above already include this - narrate it, don't apply it again
+` : ''}${context.traitsUsed?.length ? `- Spent once-per-adventure traits: ${context.traitsUsed.join(', ')}
+` : ''}
+**DIFFICULTY:** ${difficulty.prompt}
 
 **CHARACTER BACKSTORY:**
 ${c.character_backstory || `${context.name} is an adventurer seeking fortune and glory.`}
-
+${context.storySoFar ? `
+**STORY SO FAR (earlier chapters, condensed):**
+${context.storySoFar}
+` : ''}
 **NARRATIVE REQUIREMENTS (4-6 sentences):**
 1. Write in 2nd person perspective ("You...")
 2. Only use the character's name when someone addresses the character directly or when the character is mentioned in the narrative.
@@ -998,12 +1996,13 @@ EXAMPLES:
 **GAMEPLAY MECHANICS:**
 
 1. **HP Management:**
-   - Combat encounters: -5 to -20 HP depending on severity
+   - Combat damage is rolled by the encounter engine - never invent combat damage yourself
    - Minor injuries: -1 to -5 HP
-   - Healing items: +5 to +10 HP depending on the type of item
+   - Healing items: rolled and applied by the server when the player uses them - never add that healing yourself
    - Rest: FULL HP
    - Environmental hazards: -5 to -20 HP
-   - Maximum HP: 15-30 depending on the character's class
+   - Report hp_current BEFORE armor; the server subtracts the character's damage reduction from any HP loss
+   - Maximum HP: ${context.maxHp} - hp_current can NEVER go above this
    - IF hp_current <= 0: Set game_over to TRUE
 
 2. **Gold Economy:**
@@ -1015,15 +2014,35 @@ EXAMPLES:
 
 3. **Inventory Management:**
    - Add items when found, purchased, or received
-   - Remove items when used, sold, or lost
-   - Include: weapons, armor, consumables (potions, food), quest items, treasure, tools
+   - Remove items when used, sold, or lost; decrease quantity when one of a stack is used
+   - Every item has a category: weapon, armor, consumable, quest or treasure
+   - Stack identical items with quantity ("Healing Potion", quantity 2) instead of listing them twice
+   - Keep each item's description and effect unchanged from turn to turn unless the story changes the item
+   - Give an effect only to items with a clear mechanical use (healing potions, enchanted gear, sturdy armor)
+   - Healing items get a heal effect with dice notation, e.g. a potion with dice '2d4+2'
    - Be specific: "Rusty Iron Longsword" not just "sword"
-   - Limit to 10-12 items maximum for realism
-
-4. **Game Over Conditions:**
-   - HP drops to 0 or below
+   - Limit to 10-12 distinct items maximum for realism
+
+4. **Experience (xp_awarded):**
+   - 0 for routine actions, 10-25 for real progress or a hard-won check, 50-100 for a major foe or completed quest
+   - The server tracks XP and levels; level-ups raise max HP and skill totals automatically
+
+5. **Combat Encounters:**
+   - When a fight breaks out and no fight is active, describe the enemies appearing and fill encounter_start (1-4 enemies with hp, armor, attack_bonus, damage_die)
+   - Do NOT resolve attacks in the turn that opens the fight; the player acts first next turn
+   - While a fight is active the server rolls every attack and all damage; narrate the results you are given
+${combatSection}
+6. **Status Conditions:**
+   - Add a condition with conditions_added when the story inflicts or grants one: Poisoned (-2 rolls, -1 HP/turn), Bleeding (-2 HP/turn), Frightened (disadvantage), Blinded (disadvantage), Blessed (+2 rolls), Invisible (advantage), Regenerating (+2 HP/turn)
+   - Durations are 1-${MAX_CONDITION_DURATION} turns; the server counts them down and applies roll and HP effects itself - do not apply them to hp_current
+   - Use roll_mode for conditions that make every roll easier (advantage) or harder (disadvantage) rather than a flat modifier
+   - End a condition early with conditions_removed only when the story cures or dispels it
+   - Reflect active conditions in the narrative and the visual prompt
+
+7. **Game Over Conditions:**
+   - HP drops to 0 or below${difficulty.deathAllowed ? '' : ' (cannot happen on Story difficulty - the server keeps the character at 1 HP)'}
    - Story reaches one of the three possible endings
-   - Character makes a definitively fatal choice
+   - Character makes a definitively fatal choice${difficulty.deathAllowed ? '' : ' (not on Story difficulty)'}
    - When game_over is TRUE, narrative should describe the outcome (death/victory/resolution)
 
 **PLAYER OPTIONS (Always provide exactly 3):**
@@ -1042,10 +2061,16 @@ FORMATTING:
 - Include relevant details (what, how, or with what)
 
 **PROGRESSION & PACING:**
-- Track approximate story progress (early/mid/late) based on Act structure
+- The story is in Act ${context.act} at turn ${context.turn} of a campaign aimed at about ${targetTurns} turns. Act 2 should begin around turn ${actStartTurn(2, targetTurns)} and Act 3 around turn ${actStartTurn(3, targetTurns)}
+- ${pacing === 'behind' ? `The story is BEHIND pace: steer firmly toward the ${context.act === 1 ? 'Act 2 twist' : 'Act 3 climax'} within the next few turns` : pacing === 'ahead' ? 'The story is AHEAD of pace: let this act breathe with side threads and character moments before pushing on' : context.act === ACT_COUNT ? 'Final act: drive toward the climax and one of the possible endings' : 'On pace: keep building toward the next act'}
+${context.turn >= targetTurns
+  ? `- The campaign has reached its target length: resolve the climax and end the story (game_over true) within the next turn or two
+`
+  : context.turn >= targetTurns - WRAP_UP_TURNS
+    ? `- About ${targetTurns - context.turn} turns remain: resolve open threads and steer toward one of the possible endings
+`
+    : ''}- Set act_advanced to true on the turn the story crosses into the next act (the twist that opens Act 2, the climax that opens Act 3), never otherwise
 - Escalate stakes and difficulty as the campaign advances
-- Introduce Act 2 twists around 30-40% progress
-- Build toward Act 3 climax around 70-80% progress
 - Foreshadow the three possible endings through choices and consequences
 
 **CRITICAL REMINDERS:**
@@ -1059,61 +2084,109 @@ FORMATTING:
 - **NEVER USE CHARACTER NAME IN VISUAL PROMPTS:** Always use physical features from "${context.characterDescription}" instead
 
 **DICE ROLL SYSTEM:**
-The player rolls a D20 before each action. Use the roll result to determine success/failure for risky actions:
-- **Natural 20 (Critical Success):** Exceptional outcome! Describe an impressive, dramatic success with bonus effects
-- **15-19 (Success):** Action succeeds cleanly
-- **8-14 (Partial Success):** Action succeeds but with a complication, cost, or reduced effect
-- **2-7 (Failure):** Action fails, describe setback or complication
-- **Natural 1 (Critical Failure):** Dramatic mishap! Something goes wrong in an interesting way
-
-**WHEN TO USE THE ROLL:**
-- Combat attacks, blocks, and maneuvers
-- Skill checks (stealth, lockpicking, persuasion, athletics)
-- Risky or uncertain actions
-- **IGNORE the roll for:** Simple conversation, looking around, safe actions with no risk
-
-${getCharacterBonuses(context.class, context.race)}
-
-${diceRoll ? `**THIS TURN'S ROLL:** ${diceRoll}
-Add the relevant bonus to this roll when the action matches the skill categories listed above.
-For example: A Rogue rolling 12 for lockpicking gets 12 + 3 = 15 (Success)` : '(No dice roll this turn - intro or conversation)'}`;
-
-      if (!genAI) {
-        throw new Error("GEMINI_API_KEY not configured");
-      }
-
-      let geminiHistory = (history || []).map((h: { role: string; parts: { text: string }[] }) => ({
-        role: h.role === 'user' ? 'user' : 'model',
-        parts: h.parts
-      }));
-
-      if (geminiHistory.length === 0 && userInput) {
-        geminiHistory = [{ role: 'user', parts: [{ text: userInput }] }];
-      } else if (geminiHistory.length === 0) {
-        geminiHistory = [{ role: 'user', parts: [{ text: `Begin the adventure. ${c.act1}` }] }];
-      }
-
-      const apiResponse = await genAI.models.generateContent({
-        model: MODEL_TEXT,
-        contents: geminiHistory,
-        config: {
-          systemInstruction: systemPrompt,
-          responseMimeType: "application/json",
-          responseSchema: zodToJsonSchema(chatResponseSchema),
-        },
-      });
-      
-      const text = apiResponse.text;
-      if (!text) {
-        throw new Error("No content in response");
+The server classifies each action by skill, rolls a D20, adds every modifier (ability, class, level, equipment, racial trait, conditions) and compares the total to a difficulty class. With advantage (the character is unseen, the target is asleep...) it rolls two D20s and keeps the higher; with disadvantage (a storm, blindness, fear...) the lower. The outcome below is FINAL - narrate it, never recompute it or add bonuses yourself:
+- **Critical Success (natural 20):** Exceptional outcome! Describe an impressive, dramatic success with bonus effects
+- **Success (total meets the DC):** Action succeeds cleanly
+- **Partial Success (up to ${PARTIAL_SUCCESS_MARGIN} below the DC):** Action succeeds but with a complication, cost, or reduced effect
+- **Failure:** Action fails, describe setback or complication
+- **Critical Failure (natural 1):** Dramatic mishap! Something goes wrong in an interesting way
+- **No roll:** The action is safe or purely conversational - let it happen without risk
+
+${getCharacterBonuses(context.class, context.race, progress)}
+
+${roll ? `**THIS TURN'S ROLL (${roll.skill ?? 'unskilled'} check):** ${roll.raw}${roll.bonuses?.length ? ` ${roll.bonuses.map(b => `${b.value < 0 ? '-' : '+'} ${Math.abs(b.value)} (${b.source})`).join(' ')} = ${roll.total}` : ''}${roll.dc !== undefined ? ` vs DC ${roll.dc}` : ''} -> **${ROLL_OUTCOME_LABELS[roll.outcome].toUpperCase()}**${roll.traits?.length ? `
+Racial traits applied: ${roll.traits.join('; ')}` : ''}${roll.mode ? `
+Rolled with ${roll.mode} (${roll.modeSources?.join(', ') ?? ''}): ${roll.rolls?.join(' and ')}, kept ${roll.raw}` : ''}` : '(No roll this turn - intro, or nothing risky was attempted)'}`;
+
+    let contents: AIMessage[] = history.map(h => ({
+      role: h.role === 'user' ? 'user' : 'model',
+      parts: h.parts
+    }));
+
+    if (contents.length === 0 && userInput) {
+      contents = [{ role: 'user', parts: [{ text: userInput }] }];
+    } else if (contents.length === 0) {
+      contents = [{ role: 'user', parts: [{ text: `Begin the adventure. ${c.act1}` }] }];
+    }
+
+    const request = {
+      task: 'chat' as const,
+      schema: chatResponseSchema,
+      contents,
+      systemInstruction: systemPrompt,
+      context: { ...context, roll },
+    };
+
+    try {
+      let response: ChatResponse;
+      if (onNarrative) {
+        // Forward only the narrative field's text while the JSON is still being written
+        const narrative = createFieldExtractor('narrative');
+        response = await ai.streamJson(request, chunk => {
+          const text = narrative.feed(chunk);
+          if (text) onNarrative(text);
+        });
+      } else {
+        response = await ai.generateJson(request);
       }
-      
-      const response = chatResponseSchema.parse(JSON.parse(text));
       logAI(role, 'done', startTime);
-      res.json(response);
-
+      return response;
     } catch (error) {
       logAI(role, 'error', startTime);
+      throw error;
+    }
+  }
+
+  // Main chat/turn generation (anonymous players - signed-in players use /api/adventures/:id/play)
+  // Note: Rate limiting is done at game START (/api/rate-limit/track), not per-turn
+  // This allows players to finish games they've already started
+  // Signed-in players send { adventureId, userInput } and the turn is rebuilt from storage
+  app.post('/api/ai/chat', async (req, res) => {
+    try {
+      if (req.body?.adventureId) {
+        const stored = await loadStoredTurn(req, res);
+        if (!stored) return;
+
+        const result = await runTurn(stored.adventure, stored.action);
+        if (!result) {
+          return res.status(409).json({ message: "Adventure was updated by another request" });
+        }
+        return res.json({ ...result.response, turnNumber: result.turnNumber });
+      }
+
+      const { history, context, userInput } = req.body;
+      
+      const turnCount = (context?.turn || 0) + 1;
+      const maxTurns = context?.maxTurns || 5;
+      
+      // Block if over turn limit (for anonymous users)
+      if (maxTurns > 0 && turnCount > maxTurns) {
+        return res.status(403).json({
+          message: "Turn limit reached. Sign in for unlimited turns!",
+          narrative: "Your free trial has ended. Sign in to continue your adventure!",
+          hp_current: context?.hp || 30,
+          gold: context?.gold || 0,
+          inventory: context?.inventory || [],
+          options: [],
+          game_over: true
+        });
+      }
+
+      const c = context?.endgame;
+      if (!c || !c.possible_endings) {
+        return res.status(400).json({ message: "Missing campaign data" });
+      }
+
+      // Max HP is derived from class, CON and level, never taken from the client
+      const turnContext = normalizeClientContext(context);
+
+      // Roll server-side so a client can't choose its own result
+      const roll = userInput && (context?.turn || 0) > 0 ? resolveActionRoll(userInput, turnContext) : null;
+      const { response, progress, ...state } = await resolveTurn(turnContext, history || [], userInput, roll);
+      res.json({ ...response, ...progress, ...state });
+
+    } catch (error) {
+      console.error("Chat generation error:", error);
       res.status(500).json({ 
         message: "Failed to generate response",
         narrative: "The mists of fate swirl around you...",
@@ -1126,57 +2199,115 @@ For example: A Rogue rolling 12 for lockpicking gets 12 + 3 = 15 (Success)` : '(
     }
   });
 
-  // Image generation using Google GenAI SDK
+  // Streaming variant of /api/ai/chat for anonymous players (Server-Sent Events)
+  app.post('/api/ai/chat/stream', async (req, res) => {
+    let stream: EventStream | null = null;
+    try {
+      if (req.body?.adventureId) {
+        const stored = await loadStoredTurn(req, res);
+        if (!stored) return;
+
+        const events = openEventStream(res);
+        stream = events;
+        const result = await runTurn(stored.adventure, stored.action, {
+          onRoll: roll => events.send('roll', roll),
+          onNarrative: text => events.send('narrative', { text }),
+        });
+
+        if (!result) {
+          events.send('error', { message: "Adventure was updated by another request" });
+        } else {
+          events.send('done', { ...result.response, turnNumber: result.turnNumber });
+        }
+        return events.close();
+      }
+
+      const { history, context, userInput } = req.body;
+      
+      const turnCount = (context?.turn || 0) + 1;
+      const maxTurns = context?.maxTurns || 5;
+      
+      // Block if over turn limit (for anonymous users)
+      if (maxTurns > 0 && turnCount > maxTurns) {
+        return res.status(403).json({
+          message: "Turn limit reached. Sign in for unlimited turns!",
+          narrative: "Your free trial has ended. Sign in to continue your adventure!",
+        });
+      }
+
+      const c = context?.endgame;
+      if (!c || !c.possible_endings) {
+        return res.status(400).json({ message: "Missing campaign data" });
+      }
+
+      const turnContext = normalizeClientContext(context);
+      const events = openEventStream(res);
+      stream = events;
+
+      const roll = userInput && (context?.turn || 0) > 0 ? resolveActionRoll(userInput, turnContext) : null;
+      if (roll) {
+        events.send('roll', roll);
+      }
+
+      const { response, progress, ...state } = await resolveTurn(turnContext, history || [], userInput, roll,
+        text => events.send('narrative', { text }));
+      events.send('done', { ...response, ...progress, ...state });
+      events.close();
+    } catch (error) {
+      if (stream) {
+        stream.send('error', { message: "Failed to generate response" });
+        stream.close();
+      } else {
+        res.status(500).json({ message: "Failed to generate response" });
+      }
+    }
+  });
+
+  // Image generation through the configured provider
   // Optionally saves to adventure if adventureId is provided
   app.post('/api/ai/image', async (req, res) => {
     const startTime = Date.now();
     const role = "Image Artist";
     
     try {
-      const { prompt, adventureId } = req.body;
-      
-      if (!genAI) {
-        return res.json({ image: null });
+      const validationResult = imageRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid image request",
+          errors: validationResult.error.errors,
+        });
+      }
+
+      // Saving onto an adventure needs its owner; trial players just get the image back
+      const { prompt, adventureId, turnNumber } = validationResult.data;
+      let turnId: string | null = null;
+      if (adventureId && turnNumber !== undefined) {
+        if (!(await loadOwnedAdventure(req, res, adventureId))) return;
+        const turn = await storage.getTurn(adventureId, turnNumber);
+        if (!turn) {
+          return res.status(404).json({ message: "Turn not found" });
+        }
+        turnId = turn.id;
       }
 
       logAI(role, 'start');
       const finalPrompt = `${prompt}, cinematic lighting, 8k, masterpiece, detailed`;
-      
-      const response = await genAI.models.generateContent({
-        model: MODEL_IMAGE,
-        contents: [
-          {
-            role: 'user',
-            parts: [{ text: finalPrompt }],
-          },
-        ],
-        config: {
-          responseModalities: ['IMAGE', 'TEXT'],
-        },
-      });
-      
-      // Extract image from response parts
-      const parts = response.candidates?.[0]?.content?.parts;
-      if (parts && parts.length > 0) {
-        for (const part of parts) {
-          if (part.inlineData?.data) {
-            const imageData = part.inlineData.data;
-            
-            // Save to adventure if adventureId provided (no auth check needed - just saves)
-            if (adventureId) {
-              storage.updateAdventure(adventureId, { lastImage: imageData }).catch(err => {
-                console.error('Failed to save lastImage to adventure:', err);
-              });
-            }
+      const imageData = await ai.generateImage(finalPrompt);
+
+      if (!imageData) {
+        logAI(role, 'error', startTime);
+        return res.json({ image: null });
+      }
             
-            logAI(role, 'done', startTime);
-            return res.json({ image: imageData });
-          }
-        }
+      // The turn keeps it for the storybook export and share page
+      if (turnId) {
+        storage.saveTurnImage(turnId, imageData).catch(err => {
+          console.error('Failed to save turn image:', err);
+        });
       }
       
-      logAI(role, 'error', startTime);
-      res.json({ image: null });
+      logAI(role, 'done', startTime);
+      res.json({ image: imageData });
     } catch (error) {
       logAI(role, 'error', startTime);
       res.json({ image: null });
@@ -1189,16 +2320,43 @@ For example: A Rogue rolling 12 for lockpicking gets 12 + 3 = 15 (Success)` : '(
     const role = "Epilogue Writer";
     
     try {
-      const { history, context } = req.body;
-      
-      if (!genAI) {
-        return res.json({
-          epilogue_title: "The End of the Tale",
-          epilogue_text: "And so the adventure came to its conclusion. The echoes of their deeds would linger long after they were gone.",
-          ending_type: "mysterious",
-          legacy: "A wanderer whose story became legend.",
-          visual_prompt: "A lone figure silhouetted against a sunset sky"
-        });
+      let context: TurnContext;
+      let conversationSummary: string;
+      let storedAdventure: Adventure | null = null;
+
+      if (req.body?.adventureId) {
+        // Signed-in players send only the adventure id; the story comes from storage
+        const validationResult = storedAdventureSchema.safeParse(req.body);
+        if (!validationResult.success) {
+          return res.status(400).json({
+            message: "Invalid epilogue request",
+            errors: validationResult.error.errors
+          });
+        }
+
+        const adventure = await loadOwnedAdventure(req, res, validationResult.data.adventureId);
+        if (!adventure) return;
+
+        const [turns, summaries] = await Promise.all([
+          storage.getAdventureTurns(adventure.id),
+          storage.getAdventureSummaries(adventure.id),
+        ]);
+        context = adventureToTurnContext(adventure);
+        storedAdventure = adventure;
+        conversationSummary = [
+          ...summaries.map(s => `CHAPTER ${s.chapterNumber}: ${s.summary}`),
+          ...unsummarizedTurns(turns, summaries).map(t => `PLAYER ACTION: ${t.playerAction}\n\nSTORY: ${t.narrative}`),
+        ].join('\n\n');
+      } else {
+        const { history } = req.body;
+        context = normalizeClientContext(req.body.context);
+
+        // Build a summary of the conversation for the epilogue
+        conversationSummary = (history || []).map((h: { role: string; parts: { text: string }[] }) => {
+          const role = h.role === 'user' ? 'PLAYER ACTION' : 'STORY';
+          const text = h.parts?.map((p: { text: string }) => p.text).join(' ') || '';
+          return `${role}: ${text}`;
+        }).join('\n\n');
       }
 
       const c = context?.endgame;
@@ -1207,13 +2365,6 @@ For example: A Rogue rolling 12 for lockpicking gets 12 + 3 = 15 (Success)` : '(
       }
 
       logAI(role, 'start');
-      
-      // Build a summary of the conversation for the epilogue
-      const conversationSummary = (history || []).map((h: { role: string; parts: { text: string }[] }) => {
-        const role = h.role === 'user' ? 'PLAYER ACTION' : 'STORY';
-        const text = h.parts?.map((p: { text: string }) => p.text).join(' ') || '';
-        return `${role}: ${text}`;
-      }).join('\n\n');
 
       const epiloguePrompt = `You are an master storyteller writing the epilogue for a completed RPG adventure.
 
@@ -1231,9 +2382,9 @@ For example: A Rogue rolling 12 for lockpicking gets 12 + 3 = 15 (Success)` : '(
 - Role: ${context.race} ${context.class}
 - Appearance: ${context.characterDescription}
 - Character Background: ${c.character_backstory}
-- Final HP: ${context.hp}
+- Final HP: ${context.hp} / ${context.maxHp}
 - Final Gold: ${context.gold}
-- Final Inventory: ${(context.inventory || []).join(', ') || 'Nothing'}
+- Final Inventory: ${context.inventory?.length ? formatInventory(context.inventory) : 'Nothing'}
 
 **COMPLETE ADVENTURE HISTORY:**
 ${conversationSummary}
@@ -1251,19 +2402,21 @@ Write a moving epilogue that:
 9. The epilogue_text should be 2-3 rich paragraphs
 10. The visual_prompt should depict a cinematic epilogue scene (memorial, celebration, peaceful retirement, etc.)`;
 
-      const response = await genAI.models.generateContent({
-        model: MODEL_TEXT,
+      const epilogue = await ai.generateJson({
+        task: 'epilogue',
+        schema: epilogueResponseSchema,
         contents: [{ role: 'user', parts: [{ text: epiloguePrompt }] }],
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: zodToJsonSchema(epilogueResponseSchema),
-        },
+        context: { name: context.name, hp: context.hp },
       });
-
-      const text = response.text || "";
-      const epilogue = epilogueResponseSchema.parse(JSON.parse(text));
       
       logAI(role, 'done', startTime);
+
+      // Kept for the storybook export, unless the run was rewound or restarted meanwhile
+      if (storedAdventure) {
+        storage.saveEpilogue(storedAdventure.id, storedAdventure.turnCount, epilogue).catch(err => {
+          console.error('Failed to save epilogue to adventure:', err);
+        });
+      }
       res.json(epilogue);
 
     } catch (error) {
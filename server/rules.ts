@@ -0,0 +1,297 @@
+// Rules engine: decides which skill an action tests and which mechanical bonuses apply,
+// so roll totals come from the server rather than from the model's arithmetic.
+import { RACE_BONUSES, SKILL_CATEGORIES, type CheckTag, type RacialTrait } from "@shared/game-bonuses";
+import type { NamedBonus, RollMode, RollRecord } from "@shared/dice";
+import { abilityModifier, getSkillBonuses, levelForXp, type AbilityName, type AbilityScores } from "@shared/progression";
+import { findTarget, type Encounter } from "@shared/encounter";
+import { MAX_ITEM_EFFECT, type InventoryItem } from "@shared/inventory";
+import { getEquipmentBonuses, getEquipmentCheckBonuses, sumBonuses, type Equipment } from "@shared/equipment";
+import { createCondition, MAX_CONDITIONS, type Condition } from "@shared/conditions";
+import { DIFFICULTY_SETTINGS, type Difficulty } from "@shared/difficulty";
+import type { ChatResponse } from "./ai-schemas";
+import { parseDiceNotation, type DiceRollResult } from "@shared/dice-notation";
+import { rollD20, rollDice } from "./dice";
+import { FLEE_DC, isAttackSkill, isFleeAction } from "./combat";
+
+export type SkillCategory = keyof typeof SKILL_CATEGORIES;
+
+// Verbs and nouns that mark an action as testing a skill, checked in order. Whole words
+// only, with their inflections spelled out ("castle" is not casting, "health" is not healing).
+const SKILL_KEYWORDS: [SkillCategory, RegExp][] = [
+  ['stealth', /\b(sneak(s|ing)?|hide|hides|hiding|stay hidden|remain hidden|lockpick(s|ing)?|pick the lock|pickpocket(s|ing)?|steal(s|ing)?|disguise[ds]?|deceiv(e|es|ing)|lie to|lying to|creep(s|ing)?|tiptoe(s|ing)?|shadows?)\b/i],
+  ['arcane', /\b(cast(s|ing)?|spells?|magic(al)?|arcane|enchant(s|ing|ment)?|dispel(s|ling)?|rituals?|runes?|incantations?|conjur(e|es|ing))\b/i],
+  ['divine', /\b(pray(s|ing)?|prayers?|heal(s)?|bless(es|ing)?|holy|banish(es|ing)?|smite|smites|smiting|sacred|divine)\b/i],
+  ['combat', /\b(attack(s|ing)?|strike(s)?|striking|stab(s|bing)?|slash(es|ing)?|charge(s)?|charging|fight(s|ing)?|shoot(s|ing)?|parry|parries|parrying|block(s|ing)?|wrestl(e|es|ing)|punch(es|ing)?|kill(s|ing)?|swing(s|ing)?|draw (my|your) weapon|intimidat(e|es|ing))\b/i],
+  ['nature', /\b(animals?|beasts?|tam(e|es|ing)|herbs?|plants?|weather|shapeshift(s|ing)?|wild ?shape)\b/i],
+  ['social', /\b(persuad(e|es|ing)|convinc(e|es|ing)|negotiat(e|es|ing)|bargain(s|ing)?|charm(s|ing)?|perform(s|ing)?|sing(s|ing)?|inspir(e|es|ing)|plead(s|ing)?|brib(e|es|ing)|haggl(e|es|ing))\b/i],
+  ['survival', /\b(track(s|ing)?|forag(e|es|ing)|navigat(e|es|ing)|hunt(s|ing)?|traps?|climb(s|ing)?|swim(s|ming)?|search(es|ing)?|follow the (tracks|trail))\b/i],
+];
+
+// Talking or asking is only a social check when the other side is wary or the player wants
+// something from them; ordinary conversation needs no roll
+const CONVERSATION = /\b(talk(s|ing)?|ask(s|ing)?|speak(s|ing)?|tell(s|ing)?|chat(s|ting)?)\b/i;
+const TENSE_CONVERSATION = /\b(hostile|suspicious|wary|reluctant|angry|nervous|refus(e|es|ing)|unwilling|demand(s|ing)?|secrets?|truth|favou?r|trust|let (me|us) (in|through|pass)|calm (him|her|them) down|down from)\b/i;
+
+export function classifyAction(action: string): SkillCategory | null {
+  const skill = SKILL_KEYWORDS.find(([, pattern]) => pattern.test(action))?.[0] ?? null;
+  if (skill) return skill;
+  return CONVERSATION.test(action) && TENSE_CONVERSATION.test(action) ? 'social' : null;
+}
+
+// Narrower tags used by racial traits; an action can carry several. Looking or watching
+// only counts as perception when the player is looking for something.
+const CHECK_TAG_KEYWORDS: [CheckTag, RegExp][] = [
+  ['perception', /\b(search(es|ing)?|spot(s|ting)?|notic(e|es|ing)|listen(s|ing)? (for|at|closely)|examin(e|es|ing)|inspect(s|ing)?|scan(s|ning)?|perceiv(e|es|ing)|detect(s|ing)?|(look|looks|looking|watch|watches|watching) (for|out for|closely|carefully)|keep watch|peer(s|ing)? (into|through|at))\b/i],
+  ['endurance', /\b(endur(e|es|ing)|resist(s|ing)?|withstand(s|ing)?|poison(s|ed)?|toxins?|exhaust(ed|ion)?|hold (your|my) breath|push through)\b/i],
+  ['intimidation', /\b(intimidat(e|es|ing)|threaten(s|ing)?|menac(e|es|ing)|roar(s|ing)?|breath weapon|breathe fire)\b/i],
+  ['strength', /\b(lift(s|ing)?|jump(s|ing)?|leap(s|ing)?|vault(s|ing)?|push(es|ing)?|shov(e|es|ing)|break(s|ing)?|smash(es|ing)?|forc(e|es|ing)|bash(es|ing)?|bend(s|ing)?|haul(s|ing)?|drag(s|ging)?|grappl(e|es|ing)|wrestl(e|es|ing)|climb(s|ing)?)\b/i],
+  ['tinkering', /\b(tinker(s|ing)?|repair(s|ing)?|fix(es|ing)?|mechanisms?|gadgets?|contraptions?|devices?|disarm(s|ing)?)\b/i],
+  ['fire', /\b(fire|flames?|burn(s|ing)?|blaze|heat|lava|embers?)\b/i],
+  ['bargain', /\b(bargain(s|ing)?|deals?|pacts?|contracts?|brib(e|es|ing)|haggl(e|es|ing)|trad(e|es|ing))\b/i],
+];
+
+// Tags that call for a roll on their own; fire and bargain only shape a check something else called for
+const ROLL_TAGS: CheckTag[] = ['perception', 'endurance', 'intimidation', 'strength', 'tinkering'];
+
+export function tagAction(action: string): CheckTag[] {
+  return CHECK_TAG_KEYWORDS.filter(([, pattern]) => pattern.test(action)).map(([tag]) => tag);
+}
+
+// Ability used for a check that only matched a tag (no skill category)
+const TAG_ABILITIES: Record<CheckTag, AbilityName> = {
+  perception: 'wis',
+  endurance: 'con',
+  intimidation: 'cha',
+  strength: 'str',
+  tinkering: 'int',
+  fire: 'con',
+  bargain: 'cha',
+};
+
+// Difficulty classes. Fights use the target's armor or the flee DC instead.
+export const DEFAULT_DC = 13;
+const EASY_DC = 10;
+const HARD_DC = 16;
+const EASY_ACTION = /\b(carefully|slowly|patiently|take (my|your) time)\b/i;
+const HARD_ACTION = /\b(leap(s|ing)?|vault(s|ing)?|all of them|at once|single blow|heavily guarded|impossible|desperate(ly)?)\b/i;
+
+// Circumstances in the action itself that grant advantage or impose disadvantage
+const ADVANTAGE_SITUATIONS = /\b(sleeping|asleep|unaware|unsuspecting|from behind|by surprise|off guard|helpless|unconscious|restrained)\b/i;
+const DISADVANTAGE_SITUATIONS = /\b(storm|gale|blizzard|downpour|pitch dark|darkness|blind(ed|fold(ed)?)?|slippery|icy|underwater|while running|one hand(ed)?)\b/i;
+
+export interface RulesState {
+  race: string;
+  class: string;
+  abilities: AbilityScores;
+  xp: number;
+  inventory: InventoryItem[];
+  equipment: Equipment;
+  conditions: Condition[];
+  encounter: Encounter | null;
+  traitsUsed: string[]; // Once-per-adventure traits already spent
+  difficulty: Difficulty;
+}
+
+function traitAppliesTo(check: { skills?: SkillCategory[]; tags?: CheckTag[] }, skill: SkillCategory | null, tags: CheckTag[]): boolean {
+  if (!check.skills && !check.tags) return true;
+  return (!!skill && !!check.skills?.includes(skill)) || tags.some(tag => check.tags?.includes(tag));
+}
+
+function difficultyFor(action: string, skill: SkillCategory | null, encounter: Encounter | null, difficulty: Difficulty): number {
+  return baseDifficulty(action, skill, encounter) + DIFFICULTY_SETTINGS[difficulty].dcOffset;
+}
+
+function baseDifficulty(action: string, skill: SkillCategory | null, encounter: Encounter | null): number {
+  if (encounter) {
+    if (isFleeAction(action)) return FLEE_DC;
+    if (isAttackSkill(skill)) return findTarget(encounter, action).armor;
+  }
+  if (HARD_ACTION.test(action)) return HARD_DC;
+  if (EASY_ACTION.test(action)) return EASY_DC;
+  return DEFAULT_DC;
+}
+
+// Advantage and disadvantage from the situation, conditions, equipped items and the racial
+// trait. Any source of each cancels out any number of the other, so the roll is a single d20.
+function rollModeFor(
+  action: string,
+  skill: SkillCategory | null,
+  tags: CheckTag[],
+  state: RulesState
+): { mode?: RollMode; sources: string[] } {
+  const racial = RACE_BONUSES[state.race] as RacialTrait | undefined;
+  const advantage = [
+    ...(ADVANTAGE_SITUATIONS.test(action) ? ['Situation'] : []),
+    ...state.conditions.filter(condition => condition.rollMode === 'advantage').map(condition => condition.name),
+    ...getEquipmentBonuses(state.equipment, state.inventory).advantage
+      .filter(item => !item.skill || item.skill === skill)
+      .map(item => item.source),
+    ...(racial?.advantage && traitAppliesTo(racial.advantage, skill, tags) ? [`${racial.trait} (${state.race})`] : []),
+  ];
+  const disadvantage = [
+    ...(DISADVANTAGE_SITUATIONS.test(action) ? ['Situation'] : []),
+    ...state.conditions.filter(condition => condition.rollMode === 'disadvantage').map(condition => condition.name),
+  ];
+
+  if (advantage.length > 0 && disadvantage.length === 0) return { mode: 'advantage', sources: advantage };
+  if (disadvantage.length > 0 && advantage.length === 0) return { mode: 'disadvantage', sources: disadvantage };
+  return { sources: [] };
+}
+
+// Classify an action and roll for it: d20 (or 2d20 keeping one) + ability, class and level (or the ability a
+// tag calls for) + equipment + racial trait + conditions, against a difficulty class.
+// Returns null when no roll is needed: the action tests no skill and no fight is on.
+export function resolveActionRoll(action: string, state: RulesState): RollRecord | null {
+  const encounter = state.encounter?.status === 'active' ? state.encounter : null;
+  const skill = classifyAction(action);
+  const tags = tagAction(action);
+  const rollTag = tags.find(tag => ROLL_TAGS.includes(tag));
+  if (!skill && !rollTag && !encounter) {
+    return null;
+  }
+
+  const level = levelForXp(state.xp);
+  const ability = isFleeAction(action) && encounter ? 'dex' : rollTag ? TAG_ABILITIES[rollTag] : null;
+  const racial = RACE_BONUSES[state.race] as RacialTrait | undefined;
+  const bonuses: NamedBonus[] = [
+    ...(skill
+      ? getSkillBonuses(state.class, state.abilities, level, skill)
+      : ability ? [{ source: ability.toUpperCase(), value: abilityModifier(state.abilities[ability]) }] : []),
+    ...getEquipmentCheckBonuses(state.equipment, state.inventory, skill),
+    ...(racial?.check && traitAppliesTo(racial.check, skill, tags)
+      ? [{ source: `${racial.trait} (${state.race})`, value: racial.check.value }]
+      : []),
+    ...state.conditions
+      .filter(condition => condition.rollModifier !== 0)
+      .map(condition => ({ source: condition.name, value: condition.rollModifier })),
+  ].filter(bonus => bonus.value !== 0);
+
+  const { mode, sources } = rollModeFor(action, skill, tags, state);
+  const roll = rollD20(sumBonuses(bonuses), undefined, {
+    rerollNaturalOne: racial?.rerollNaturalOne,
+    dc: difficultyFor(action, skill, encounter, state.difficulty),
+    mode,
+  });
+  return {
+    ...roll,
+    skill,
+    bonuses,
+    ...(mode ? { modeSources: sources } : {}),
+    ...(roll.rerolled ? { traits: [`${racial!.trait}: rerolled a natural ${roll.rerolled}`] } : {}),
+  };
+}
+
+const USE_ITEM = /\b(drink(s|ing)?|quaff(s|ing)?|use|uses|using|consum(e|es|ing)|eat(s|ing)?|apply|applies|applying|swallow(s|ing)?|uncork(s|ing)?)\b/i;
+
+export interface ItemUse {
+  item: string;
+  healed: number;              // HP actually restored (capped at max)
+  roll: DiceRollResult | null; // Null for a flat heal value
+}
+
+// Using a carried item with a heal effect is resolved before the model writes the scene:
+// the healing is rolled and applied and one of the stack is used up. The item is matched
+// by any significant word of its name ("drink a potion" -> "Healing Potion").
+export function resolveItemUse(
+  action: string,
+  state: { hp: number; maxHp: number; inventory: InventoryItem[] }
+): { hp: number; inventory: InventoryItem[]; use: ItemUse } | null {
+  if (!USE_ITEM.test(action) || state.hp <= 0) return null;
+
+  const words: string[] = action.toLowerCase().match(/[a-z']+/g) ?? [];
+  const item = state.inventory.find(candidate =>
+    candidate.effect?.kind === 'heal' &&
+    candidate.name.toLowerCase().split(/\s+/).some(word => word.length >= 4 && words.includes(word)));
+  if (!item?.effect) return null;
+
+  const expression = item.effect.dice ? parseDiceNotation(item.effect.dice) : null;
+  const roll = expression ? rollDice(expression, item.name) : null;
+  const healed = Math.max(0, Math.min(MAX_ITEM_EFFECT.heal, roll?.total ?? item.effect.value)); // Big dice can't outheal the cap
+  const hp = Math.min(state.maxHp, state.hp + healed);
+
+  return {
+    hp,
+    inventory: state.inventory
+      .map(i => i === item ? { ...i, quantity: i.quantity - 1 } : i)
+      .filter(i => i.quantity > 0),
+    use: { item: item.name, healed: hp - state.hp, roll },
+  };
+}
+
+// Half-Orc Relentless: the first blow that would drop the character to 0 HP leaves them
+// at 1 instead. Returns the trait's description when it fires.
+export function applyRelentless(
+  response: ChatResponse,
+  state: Pick<RulesState, 'race' | 'traitsUsed'>
+): { response: ChatResponse; traitsUsed: string[]; applied: string | null } {
+  const racial = RACE_BONUSES[state.race] as RacialTrait | undefined;
+  if (!racial?.relentless || response.hp_current > 0 || state.traitsUsed.includes(racial.trait)) {
+    return { response, traitsUsed: state.traitsUsed, applied: null };
+  }
+
+  return {
+    // The death no longer ends the game
+    response: { ...response, hp_current: 1, game_over: false },
+    traitsUsed: [...state.traitsUsed, racial.trait],
+    applied: `${racial.trait}: dropped to 1 HP instead of 0`,
+  };
+}
+
+// End-of-turn condition upkeep: conditions active at the start of the turn apply their
+// HP effect and lose a turn, then the model's removals and additions are applied.
+// Newly added conditions start ticking next turn.
+export function advanceConditions(
+  response: ChatResponse,
+  conditions: Condition[]
+): { response: ChatResponse; conditions: Condition[] } {
+  const hpChange = conditions.reduce((total, condition) => total + condition.hpPerTurn, 0);
+  const removed = response.conditions_removed ?? [];
+
+  let next = conditions
+    .map(condition => ({ ...condition, turnsLeft: condition.turnsLeft - 1 }))
+    .filter(condition => condition.turnsLeft > 0 && !removed.some(name => name.toLowerCase() === condition.name.toLowerCase()));
+
+  for (const add of response.conditions_added ?? []) {
+    if (!add.name.trim()) continue;
+    const condition = createCondition(add);
+    // Re-applying a condition refreshes it rather than stacking a second copy
+    next = [...next.filter(c => c.name.toLowerCase() !== condition.name.toLowerCase()), condition];
+  }
+
+  const hp = response.hp_current + hpChange;
+  return {
+    response: hpChange !== 0 && response.hp_current > 0
+      ? { ...response, hp_current: hp, game_over: response.game_over || hp <= 0 }
+      : response,
+    conditions: next.slice(-MAX_CONDITIONS),
+  };
+}
+
+// Story mode halves HP lost this turn (rounding the loss up) and never lets the character
+// die: a killing blow leaves them at 1 HP and the game goes on
+export function applyDifficulty(response: ChatResponse, previousHp: number, difficulty: Difficulty): ChatResponse {
+  const settings = DIFFICULTY_SETTINGS[difficulty];
+  const damage = previousHp - response.hp_current;
+  const hp = damage > 0 ? previousHp - Math.ceil(damage * settings.damageTaken) : response.hp_current;
+  if (settings.deathAllowed || hp > 0) {
+    return { ...response, hp_current: hp };
+  }
+  return { ...response, hp_current: 1, game_over: false };
+}
+
+// Equipped armor soaks part of any HP lost this turn
+export function applyDamageReduction(response: ChatResponse, previousHp: number, state: RulesState): ChatResponse {
+  const reduction = sumBonuses(getEquipmentBonuses(state.equipment, state.inventory).damageReduction);
+  const damage = previousHp - response.hp_current;
+  if (reduction <= 0 || damage <= 0) {
+    return response;
+  }
+
+  const hp = previousHp - Math.max(0, damage - reduction);
+  return {
+    ...response,
+    hp_current: hp,
+    // A death the armor prevented no longer ends the game
+    game_over: response.game_over && !(response.hp_current <= 0 && hp > 0),
+  };
+}
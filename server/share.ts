@@ -0,0 +1,53 @@
+// Public read-only share links: /share/:token replays an adventure to anyone with the link
+import { randomBytes } from "crypto";
+import type { Adventure, AdventureTurn } from "@shared/schema";
+import { storage } from "./storage";
+import { buildStorybook } from "./storybook";
+import type { MetaTags } from "../vite-plugin-meta-images";
+
+const SHARE_PAGE_PATTERN = /^\/share\/([A-Za-z0-9_-]+)\/?(?:[?#].*)?$/;
+
+export function createShareToken(): string {
+  return randomBytes(18).toString('base64url');
+}
+
+export function sharePath(token: string): string {
+  return `/share/${token}`;
+}
+
+// What the public share page gets: the storybook text plus image URLs, nothing owner-only
+export function toSharedAdventure(adventure: Adventure, turns: AdventureTurn[], imageTurns: number[], token: string) {
+  const book = buildStorybook(adventure, turns, []);
+  const withImages = new Set(imageTurns);
+  return {
+    title: book.title,
+    byline: book.byline,
+    details: book.details,
+    backstory: book.backstory,
+    status: adventure.status,
+    endingType: adventure.endingType,
+    coverUrl: adventure.lastImage ? `/api/share/${token}/image` : null,
+    turns: book.turns.map(({ image, ...turn }) => ({
+      ...turn,
+      imageUrl: withImages.has(turn.number) ? `/api/share/${token}/images/${turn.number}` : null,
+    })),
+    epilogue: book.epilogue,
+  };
+}
+
+// OpenGraph tags for a share page request, or null for any other page
+export async function getShareMetaTags(url: string, baseUrl: string): Promise<MetaTags | null> {
+  const match = SHARE_PAGE_PATTERN.exec(url);
+  if (!match) return null;
+
+  const adventure = await storage.getAdventureByShareToken(match[1]);
+  if (!adventure) return null;
+
+  const book = buildStorybook(adventure, [], []);
+  return {
+    title: `${book.title} - GemRPG`,
+    description: `${book.byline}. ${book.details}`,
+    image: adventure.lastImage ? `${baseUrl}/api/share/${match[1]}/image` : undefined,
+    url: `${baseUrl}${sharePath(match[1])}`,
+  };
+}
@@ -1,6 +1,8 @@
 import express, { type Express } from "express";
 import fs from "fs";
 import path from "path";
+import { applyMetaTags } from "../vite-plugin-meta-images";
+import { getShareMetaTags } from "./share";
 
 export function serveStatic(app: Express) {
   const distPath = path.resolve(__dirname, "public");
@@ -13,7 +15,18 @@ export function serveStatic(app: Express) {
   app.use(express.static(distPath));
 
   // fall through to index.html if the file doesn't exist
-  app.use("*", (_req, res) => {
-    res.sendFile(path.resolve(distPath, "index.html"));
+  app.use("*", async (req, res, next) => {
+    const indexPath = path.resolve(distPath, "index.html");
+    try {
+      // Share pages get the shared adventure's OpenGraph tags
+      const meta = await getShareMetaTags(req.originalUrl, `${req.protocol}://${req.get("host")}`);
+      if (!meta) {
+        return res.sendFile(indexPath);
+      }
+      const html = await fs.promises.readFile(indexPath, "utf-8");
+      res.status(200).set({ "Content-Type": "text/html" }).end(applyMetaTags(html, meta));
+    } catch (e) {
+      next(e);
+    }
   });
 }
@@ -2,6 +2,8 @@ import {
   users,
   adventures,
   adventureTurns,
+  adventureSummaries,
+  turnImages,
   ipRateLimits,
   type User,
   type UpsertUser,
@@ -9,10 +11,19 @@ import {
   type InsertAdventure,
   type AdventureTurn,
   type InsertAdventureTurn,
+  type AdventureSummary,
+  type InsertAdventureSummary,
+  type TurnImage,
   type IpRateLimit,
 } from "@shared/schema";
+
+// Rows to be created under a new adventure
+type NewTurn = Omit<typeof adventureTurns.$inferInsert, 'adventureId'>;
+type NewSummary = Omit<typeof adventureSummaries.$inferInsert, 'adventureId'>;
+type NewTurnImage = { turnNumber: number; image: string };
 import { db } from "./db";
-import { eq, and, desc, asc } from "drizzle-orm";
+import { eq, and, desc, asc, gt, inArray, sql } from "drizzle-orm";
+import type { DiceRollResult } from "@shared/dice-notation";
 
 // Interface for storage operations
 export interface IStorage {
@@ -22,17 +33,37 @@ export interface IStorage {
 
   // Adventure operations (signed-in users only)
   getAdventure(id: string): Promise<Adventure | undefined>;
+  getAdventureByShareToken(token: string): Promise<Adventure | undefined>;
   getUserAdventures(userId: string, limit?: number): Promise<Adventure[]>;
   getActiveAdventure(userId: string): Promise<Adventure | undefined>;
+  getSaveSlots(userId: string): Promise<Adventure[]>;
+  setCurrentAdventure(userId: string, adventureId: string | null): Promise<void>;
   createAdventure(adventure: InsertAdventure): Promise<Adventure>;
   updateAdventure(id: string, updates: Partial<Adventure>): Promise<Adventure | undefined>;
+  saveEpilogue(id: string, turnCount: number, epilogue: unknown): Promise<boolean>;
   deleteAdventure(id: string): Promise<void>;
 
   // Adventure turn operations
   getAdventureTurns(adventureId: string, limit?: number): Promise<AdventureTurn[]>;
   createTurn(turn: InsertAdventureTurn): Promise<AdventureTurn>;
   getLatestTurn(adventureId: string): Promise<AdventureTurn | undefined>;
+  getTurn(adventureId: string, turnNumber: number): Promise<AdventureTurn | undefined>;
+  addTurnDiceRoll(turnId: string, roll: DiceRollResult, maxRolls: number): Promise<'added' | 'full' | 'missing'>;
+  recordTurn(turn: InsertAdventureTurn, updates: Partial<Adventure>): Promise<{ turn: AdventureTurn; adventure: Adventure } | undefined>;
   deleteAdventureTurns(adventureId: string): Promise<void>;
+  rewindAdventure(adventureId: string, fromTurn: number, toTurn: number, updates: Partial<Adventure>): Promise<Adventure | undefined>;
+  forkAdventure(adventure: InsertAdventure, turns: AdventureTurn[], summaries: AdventureSummary[], images: TurnImage[]): Promise<Adventure>;
+  importAdventure(adventure: InsertAdventure, turns: NewTurn[], summaries: NewSummary[], images: NewTurnImage[]): Promise<Adventure>;
+
+  // Adventure memory (chapter summary) operations
+  getAdventureSummaries(adventureId: string): Promise<AdventureSummary[]>;
+  createSummary(summary: InsertAdventureSummary, turnIds: string[]): Promise<AdventureSummary | undefined>;
+
+  // Scene image operations
+  getTurnImages(adventureId: string): Promise<TurnImage[]>;
+  getTurnImage(adventureId: string, turnNumber: number): Promise<TurnImage | undefined>;
+  getTurnImageNumbers(adventureId: string): Promise<number[]>;
+  saveTurnImage(turnId: string, image: string): Promise<boolean>;
 
   // IP rate limiting operations (for anonymous users)
   getIpRateLimit(ipAddress: string): Promise<IpRateLimit | undefined>;
@@ -70,6 +101,14 @@ export class DatabaseStorage implements IStorage {
     return adventure;
   }
 
+  async getAdventureByShareToken(token: string): Promise<Adventure | undefined> {
+    const [adventure] = await db
+      .select()
+      .from(adventures)
+      .where(eq(adventures.shareToken, token));
+    return adventure;
+  }
+
   async getUserAdventures(userId: string, limit?: number): Promise<Adventure[]> {
     let query = db
       .select()
@@ -84,8 +123,25 @@ export class DatabaseStorage implements IStorage {
     return await query;
   }
 
+  // The adventure the player pinned from their save slots, if it's still in play
   async getActiveAdventure(userId: string): Promise<Adventure | undefined> {
-    const [adventure] = await db
+    const [row] = await db
+      .select({ adventure: adventures })
+      .from(users)
+      .innerJoin(adventures, eq(adventures.id, users.currentAdventureId))
+      .where(
+        and(
+          eq(users.id, userId),
+          eq(adventures.userId, userId),
+          eq(adventures.status, 'active')
+        )
+      );
+    return row?.adventure;
+  }
+
+  // Adventures still in play - each one takes a save slot
+  async getSaveSlots(userId: string): Promise<Adventure[]> {
+    return await db
       .select()
       .from(adventures)
       .where(
@@ -94,9 +150,14 @@ export class DatabaseStorage implements IStorage {
           eq(adventures.status, 'active')
         )
       )
-      .orderBy(desc(adventures.lastPlayedAt))
-      .limit(1);
-    return adventure;
+      .orderBy(desc(adventures.lastPlayedAt));
+  }
+
+  async setCurrentAdventure(userId: string, adventureId: string | null): Promise<void> {
+    await db
+      .update(users)
+      .set({ currentAdventureId: adventureId, updatedAt: new Date() })
+      .where(eq(users.id, userId));
   }
 
   async createAdventure(adventureData: InsertAdventure): Promise<Adventure> {
@@ -120,6 +181,25 @@ export class DatabaseStorage implements IStorage {
     return adventure;
   }
 
+  // Stores a generated epilogue only if the adventure is still completed at the turn it was
+  // written for; false when a rewind or restart got there first
+  async saveEpilogue(id: string, turnCount: number, epilogue: unknown): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [adventure] = await tx
+        .select({ status: adventures.status, turnCount: adventures.turnCount })
+        .from(adventures)
+        .where(eq(adventures.id, id))
+        .for('update');
+      if (adventure?.status !== 'completed' || adventure.turnCount !== turnCount) return false;
+
+      await tx
+        .update(adventures)
+        .set({ epilogue, updatedAt: new Date() })
+        .where(eq(adventures.id, id));
+      return true;
+    });
+  }
+
   async deleteAdventure(id: string): Promise<void> {
     // Turns are deleted automatically via CASCADE
     await db.delete(adventures).where(eq(adventures.id, id));
@@ -165,8 +245,250 @@ export class DatabaseStorage implements IStorage {
     return turn;
   }
 
+  async getTurn(adventureId: string, turnNumber: number): Promise<AdventureTurn | undefined> {
+    const [turn] = await db
+      .select()
+      .from(adventureTurns)
+      .where(and(eq(adventureTurns.adventureId, adventureId), eq(adventureTurns.turnNumber, turnNumber)));
+    return turn;
+  }
+
+  // Appends a roll in SQL (so two quick /roll commands can't overwrite each other) unless the
+  // turn already holds maxRolls, or was deleted by a rewind or restart in the meantime
+  async addTurnDiceRoll(turnId: string, roll: DiceRollResult, maxRolls: number): Promise<'added' | 'full' | 'missing'> {
+    const updated = await db
+      .update(adventureTurns)
+      .set({ diceRolls: sql`${adventureTurns.diceRolls} || ${JSON.stringify([roll])}::jsonb` })
+      .where(and(eq(adventureTurns.id, turnId), sql`jsonb_array_length(${adventureTurns.diceRolls}) < ${maxRolls}`))
+      .returning({ id: adventureTurns.id });
+    if (updated.length > 0) return 'added';
+
+    const [turn] = await db
+      .select({ id: adventureTurns.id })
+      .from(adventureTurns)
+      .where(eq(adventureTurns.id, turnId));
+    return turn ? 'full' : 'missing';
+  }
+
+  // Insert a turn and apply its state changes atomically. The adventure row is only
+  // updated if its turnCount is still the one this turn was generated against, so a
+  // duplicate or out-of-order submission returns undefined instead of forking the save.
+  async recordTurn(
+    turnData: InsertAdventureTurn,
+    updates: Partial<Adventure>
+  ): Promise<{ turn: AdventureTurn; adventure: Adventure } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [adventure] = await tx
+        .update(adventures)
+        .set({
+          ...updates,
+          turnCount: turnData.turnNumber,
+          updatedAt: new Date(),
+          lastPlayedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(adventures.id, turnData.adventureId),
+            eq(adventures.turnCount, turnData.turnNumber - 1)
+          )
+        )
+        .returning();
+
+      if (!adventure) {
+        return undefined;
+      }
+
+      const [turn] = await tx
+        .insert(adventureTurns)
+        .values(turnData)
+        .returning();
+      return { turn, adventure };
+    });
+  }
+
+  // Scene images go with the turns they belong to
   async deleteAdventureTurns(adventureId: string): Promise<void> {
     await db.delete(adventureTurns).where(eq(adventureTurns.adventureId, adventureId));
+    await db.delete(turnImages).where(eq(turnImages.adventureId, adventureId));
+  }
+
+  // Truncate an adventure back to toTurn: later turns and images, and any chapter summary
+  // reaching past it, are deleted and the restored state applied together. Like recordTurn,
+  // nothing changes (undefined) if the adventure is no longer at fromTurn.
+  async rewindAdventure(
+    adventureId: string,
+    fromTurn: number,
+    toTurn: number,
+    updates: Partial<Adventure>
+  ): Promise<Adventure | undefined> {
+    return await db.transaction(async (tx) => {
+      const [adventure] = await tx
+        .update(adventures)
+        .set({
+          ...updates,
+          turnCount: toTurn,
+          updatedAt: new Date(),
+          lastPlayedAt: new Date(),
+        })
+        .where(and(eq(adventures.id, adventureId), eq(adventures.turnCount, fromTurn)))
+        .returning();
+
+      if (!adventure) {
+        return undefined;
+      }
+
+      await tx
+        .delete(adventureTurns)
+        .where(and(eq(adventureTurns.adventureId, adventureId), gt(adventureTurns.turnNumber, toTurn)));
+      await tx
+        .delete(adventureSummaries)
+        .where(and(eq(adventureSummaries.adventureId, adventureId), gt(adventureSummaries.toTurn, toTurn)));
+      await tx
+        .delete(turnImages)
+        .where(and(eq(turnImages.adventureId, adventureId), gt(turnImages.turnNumber, toTurn)));
+      return adventure;
+    });
+  }
+
+  // Create an adventure together with copies of another adventure's turns, chapter summaries and images
+  async forkAdventure(
+    adventureData: InsertAdventure,
+    turns: AdventureTurn[],
+    summaries: AdventureSummary[],
+    images: TurnImage[]
+  ): Promise<Adventure> {
+    return await this.importAdventure(
+      adventureData,
+      turns.map(({ id, adventureId, createdAt, ...turn }) => turn),
+      summaries.map(({ id, adventureId, createdAt, ...summary }) => summary),
+      images.map(({ turnNumber, image }) => ({ turnNumber, image }))
+    );
+  }
+
+  // Create an adventure with its turns, chapter summaries and images in one go
+  async importAdventure(
+    adventureData: InsertAdventure,
+    turns: NewTurn[],
+    summaries: NewSummary[],
+    images: NewTurnImage[]
+  ): Promise<Adventure> {
+    return await db.transaction(async (tx) => {
+      const [adventure] = await tx
+        .insert(adventures)
+        .values(adventureData)
+        .returning();
+
+      if (turns.length > 0) {
+        await tx.insert(adventureTurns).values(turns.map(turn => ({ ...turn, adventureId: adventure.id })));
+      }
+      if (summaries.length > 0) {
+        await tx.insert(adventureSummaries).values(summaries.map(summary => ({ ...summary, adventureId: adventure.id })));
+      }
+      if (images.length > 0) {
+        await tx.insert(turnImages).values(images.map(image => ({ ...image, adventureId: adventure.id })));
+      }
+      return adventure;
+    });
+  }
+
+  // Adventure memory operations
+  async getAdventureSummaries(adventureId: string): Promise<AdventureSummary[]> {
+    return await db
+      .select()
+      .from(adventureSummaries)
+      .where(eq(adventureSummaries.adventureId, adventureId))
+      .orderBy(asc(adventureSummaries.chapterNumber));
+  }
+
+  // Saves a chapter only if the turns it condenses still exist and it follows the latest
+  // chapter; a rewind or restart that landed while it was being written wins
+  async createSummary(summaryData: InsertAdventureSummary, turnIds: string[]): Promise<AdventureSummary | undefined> {
+    return await db.transaction(async (tx) => {
+      // Rewind updates this row first, so it can't commit halfway through the checks
+      await tx
+        .select({ id: adventures.id })
+        .from(adventures)
+        .where(eq(adventures.id, summaryData.adventureId))
+        .for('update');
+
+      // Locking the turns makes a restart deleting them wait, then clear this chapter too
+      const turns = await tx
+        .select({ id: adventureTurns.id })
+        .from(adventureTurns)
+        .where(and(eq(adventureTurns.adventureId, summaryData.adventureId), inArray(adventureTurns.id, turnIds)))
+        .for('share');
+      if (turns.length !== turnIds.length) return undefined;
+
+      const [latest] = await tx
+        .select({ toTurn: adventureSummaries.toTurn })
+        .from(adventureSummaries)
+        .where(eq(adventureSummaries.adventureId, summaryData.adventureId))
+        .orderBy(desc(adventureSummaries.toTurn))
+        .limit(1);
+      if ((latest?.toTurn ?? 0) !== summaryData.fromTurn - 1) return undefined;
+
+      const [summary] = await tx
+        .insert(adventureSummaries)
+        .values(summaryData)
+        .returning();
+      return summary;
+    });
+  }
+
+  // Scene image operations
+  async getTurnImages(adventureId: string): Promise<TurnImage[]> {
+    return await db
+      .select()
+      .from(turnImages)
+      .where(eq(turnImages.adventureId, adventureId))
+      .orderBy(asc(turnImages.turnNumber));
+  }
+
+  async getTurnImage(adventureId: string, turnNumber: number): Promise<TurnImage | undefined> {
+    const [image] = await db
+      .select()
+      .from(turnImages)
+      .where(and(eq(turnImages.adventureId, adventureId), eq(turnImages.turnNumber, turnNumber)));
+    return image;
+  }
+
+  // Which turns have an image, without loading the images
+  async getTurnImageNumbers(adventureId: string): Promise<number[]> {
+    const rows = await db
+      .select({ turnNumber: turnImages.turnNumber })
+      .from(turnImages)
+      .where(eq(turnImages.adventureId, adventureId))
+      .orderBy(asc(turnImages.turnNumber));
+    return rows.map(row => row.turnNumber);
+  }
+
+  // Saves the image for the turn it was generated for, by id so a turn replayed under the same
+  // number after a rewind doesn't get it; false if that turn is gone
+  async saveTurnImage(turnId: string, image: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      // The lock keeps a concurrent rewind from deleting the turn until the image is in
+      const [turn] = await tx
+        .select({ adventureId: adventureTurns.adventureId, turnNumber: adventureTurns.turnNumber })
+        .from(adventureTurns)
+        .where(eq(adventureTurns.id, turnId))
+        .for('share');
+      if (!turn) return false;
+
+      await tx
+        .insert(turnImages)
+        .values({ ...turn, image })
+        .onConflictDoUpdate({
+          target: [turnImages.adventureId, turnImages.turnNumber],
+          set: { image, createdAt: new Date() },
+        });
+
+      // Only the newest turn's scene becomes the adventure's cover
+      await tx
+        .update(adventures)
+        .set({ lastImage: image })
+        .where(and(eq(adventures.id, turn.adventureId), eq(adventures.turnCount, turn.turnNumber)));
+      return true;
+    });
   }
 
   // IP rate limiting operations
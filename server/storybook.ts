@@ -0,0 +1,366 @@
+// Renders a saved adventure as a storybook: Markdown, a self-contained HTML page or an EPUB
+import { marked } from "marked";
+import type { Adventure, AdventureTurn, TurnImage } from "@shared/schema";
+import { formatRollBreakdown, getRollOutcome, rollOutcomeValues, type RollOutcome, type RollRecord } from "@shared/dice";
+import { formatDiceRoll, type DiceRollResult } from "@shared/dice-notation";
+import { DIFFICULTY_SETTINGS } from "@shared/difficulty";
+import { CAMPAIGN_LENGTH_SETTINGS } from "@shared/campaign-length";
+import { ACT_LABELS, parseAct, type Act } from "@shared/acts";
+import { adventureToTurnContext } from "./game-state";
+import { createZip } from "./zip";
+
+export const exportFormatValues = ['markdown', 'html', 'epub'] as const;
+export type ExportFormat = typeof exportFormatValues[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, { contentType: string; extension: string }> = {
+  markdown: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  html: { contentType: 'text/html; charset=utf-8', extension: 'html' },
+  epub: { contentType: 'application/epub+zip', extension: 'epub' },
+};
+
+interface StoryImage {
+  mimeType: string;
+  extension: string;
+  data: string; // base64
+}
+
+interface StoryTurn {
+  number: number;
+  act: Act;
+  action: string | null; // Null for the prologue
+  narrative: string;
+  rolls: string[];
+  image: StoryImage | null;
+}
+
+interface StoryEpilogue {
+  title: string;
+  text: string;
+  legacy: string;
+}
+
+export interface Storybook {
+  id: string;
+  title: string;
+  byline: string; // "Aria, a female Elf Mage"
+  details: string; // Difficulty, length and how it ended
+  backstory: { world: string; hero: string } | null; // Not the act outline or endings: no spoilers
+  turns: StoryTurn[];
+  epilogue: StoryEpilogue | null;
+  updatedAt: Date;
+}
+
+const ENDING_LABELS: Record<string, string> = {
+  victory: 'Victorious',
+  death: 'Fallen',
+  limit_reached: 'Unfinished',
+};
+
+// Generated images are JPEG; anything else is sniffed from the base64 header
+function toStoryImage(data: string): StoryImage {
+  if (data.startsWith('iVBOR')) return { mimeType: 'image/png', extension: 'png', data };
+  if (data.startsWith('UklGR')) return { mimeType: 'image/webp', extension: 'webp', data };
+  return { mimeType: 'image/jpeg', extension: 'jpg', data };
+}
+
+// The turn's d20 check rebuilt from its stored columns
+function turnRoll(turn: AdventureTurn): RollRecord | null {
+  if (turn.diceRoll === null) return null;
+  const modifier = turn.rollModifier ?? 0;
+  const total = turn.diceRoll + modifier;
+  const dc = turn.rollDc ?? undefined;
+  const outcome = rollOutcomeValues.includes(turn.rollOutcome as RollOutcome)
+    ? turn.rollOutcome as RollOutcome
+    : getRollOutcome(turn.diceRoll, total, dc);
+  const mode = turn.rollMode === 'advantage' || turn.rollMode === 'disadvantage' ? turn.rollMode : undefined;
+
+  return {
+    seed: turn.rollSeed ?? '',
+    raw: turn.diceRoll,
+    modifier,
+    total,
+    outcome,
+    skill: turn.rollSkill,
+    dc,
+    ...(mode && turn.rollDiscarded !== null ? { mode, rolls: [turn.diceRoll, turn.rollDiscarded] } : {}),
+  };
+}
+
+function turnRolls(turn: AdventureTurn): string[] {
+  const roll = turnRoll(turn);
+  const diceRolls = Array.isArray(turn.diceRolls) ? turn.diceRolls as DiceRollResult[] : [];
+  return [
+    ...(roll ? [`d20: ${formatRollBreakdown(roll)}`] : []),
+    ...diceRolls.map(result => formatDiceRoll(result)),
+  ];
+}
+
+function parseEpilogue(value: unknown): StoryEpilogue | null {
+  if (!value || typeof value !== 'object') return null;
+  const epilogue = value as Record<string, unknown>;
+  if (typeof epilogue.epilogue_text !== 'string') return null;
+  return {
+    title: typeof epilogue.epilogue_title === 'string' ? epilogue.epilogue_title : 'Epilogue',
+    text: epilogue.epilogue_text,
+    legacy: typeof epilogue.legacy === 'string' ? epilogue.legacy : '',
+  };
+}
+
+export function buildStorybook(adventure: Adventure, turns: AdventureTurn[], images: TurnImage[]): Storybook {
+  const context = adventureToTurnContext(adventure);
+  const imagesByTurn = new Map(images.map(image => [image.turnNumber, image.image]));
+  const article = /^[aeiou]/i.test(context.gender) ? 'an' : 'a';
+  const ending = adventure.endingType ? ENDING_LABELS[adventure.endingType] : null;
+
+  return {
+    id: adventure.id,
+    title: context.endgame?.title || adventure.campaignTitle || `The Tale of ${context.name}`,
+    byline: `${context.name}, ${article} ${context.gender} ${context.race} ${context.class}`,
+    details: [
+      `${DIFFICULTY_SETTINGS[context.difficulty].label} difficulty`,
+      `${CAMPAIGN_LENGTH_SETTINGS[context.campaignLength].label} campaign`,
+      `${adventure.turnCount} turns`,
+      ...(ending ? [ending] : []),
+    ].join(' • '),
+    backstory: context.endgame
+      ? { world: context.endgame.world_backstory, hero: context.endgame.character_backstory }
+      : null,
+    turns: turns.map(turn => {
+      const image = imagesByTurn.get(turn.turnNumber);
+      return {
+        number: turn.turnNumber,
+        act: parseAct(turn.actAfter),
+        action: turn.turnNumber === 1 ? null : turn.playerAction,
+        narrative: turn.narrative,
+        rolls: turnRolls(turn),
+        image: image ? toStoryImage(image) : null,
+      };
+    }),
+    epilogue: parseEpilogue(adventure.epilogue),
+    updatedAt: adventure.updatedAt ?? new Date(),
+  };
+}
+
+// Turns grouped into chapters by the act they ended in
+function chapters(book: Storybook): { act: Act; turns: StoryTurn[] }[] {
+  const grouped: { act: Act; turns: StoryTurn[] }[] = [];
+  for (const turn of book.turns) {
+    const last = grouped[grouped.length - 1];
+    if (last && last.act === turn.act) {
+      last.turns.push(turn);
+    } else {
+      grouped.push({ act: turn.act, turns: [turn] });
+    }
+  }
+  return grouped;
+}
+
+function turnHeading(turn: StoryTurn): string {
+  return turn.action === null ? 'Prologue' : `Turn ${turn.number}`;
+}
+
+// "the-ash-crown.epub"
+export function exportFilename(title: string, extension: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'adventure';
+  return `${slug}.${extension}`;
+}
+
+// ============== MARKDOWN ==============
+
+export function renderMarkdown(book: Storybook): string {
+  const lines: string[] = [`# ${book.title}`, '', `*${book.byline}*`, '', book.details, ''];
+
+  if (book.backstory) {
+    lines.push('## The World', '', book.backstory.world, '');
+    lines.push('## The Hero', '', book.backstory.hero, '');
+  }
+
+  for (const chapter of chapters(book)) {
+    lines.push(`## ${ACT_LABELS[chapter.act]}`, '');
+    for (const turn of chapter.turns) {
+      lines.push(`### ${turnHeading(turn)}`, '');
+      if (turn.action !== null) lines.push(`> **${turn.action}**`, '');
+      for (const roll of turn.rolls) lines.push(`*🎲 ${roll}*`, '');
+      lines.push(turn.narrative, '');
+      if (turn.image) lines.push(`![${turnHeading(turn)}](data:${turn.image.mimeType};base64,${turn.image.data})`, '');
+    }
+  }
+
+  if (book.epilogue) {
+    lines.push(`## Epilogue: ${book.epilogue.title}`, '', book.epilogue.text, '');
+    if (book.epilogue.legacy) lines.push(`*${book.epilogue.legacy}*`, '');
+  }
+
+  return lines.join('\n');
+}
+
+// ============== HTML / EPUB ==============
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Narrative markdown as XHTML-safe HTML; raw HTML in the text is escaped, not rendered
+function markdownToHtml(text: string): string {
+  const html = marked.parse(text.replace(/&/g, '&amp;').replace(/</g, '&lt;'), { async: false }) as string;
+  return html.replace(/<(br|hr|img)\b([^>]*?)\s*\/?>/g, '<$1$2 />');
+}
+
+const STYLESHEET = `
+body { font-family: Georgia, 'Times New Roman', serif; line-height: 1.6; color: #222; max-width: 42em; margin: 0 auto; padding: 2em 1em; }
+h1, h2, h3 { font-family: 'Cinzel', Georgia, serif; line-height: 1.2; }
+h1 { text-align: center; font-size: 2.2em; margin-bottom: 0.2em; }
+h2 { margin-top: 2em; border-bottom: 1px solid #ccc; padding-bottom: 0.2em; }
+h3 { font-size: 1em; text-transform: uppercase; letter-spacing: 0.1em; color: #777; margin-top: 2em; }
+.byline, .details { text-align: center; color: #555; margin: 0.2em 0; }
+.byline { font-style: italic; }
+.details { font-size: 0.85em; }
+.action { border-left: 3px solid #8b5cf6; margin: 0.5em 0; padding-left: 0.8em; font-weight: bold; }
+.roll { font-family: 'Courier New', monospace; font-size: 0.8em; color: #666; margin: 0.2em 0; }
+.scene { text-align: center; margin: 1em 0; }
+.scene img { max-width: 100%; border-radius: 4px; }
+.legacy { font-style: italic; text-align: center; }
+section.chapter { page-break-before: always; }
+@media print { body { max-width: none; } .scene { page-break-inside: avoid; } }
+`;
+
+function frontMatterHtml(book: Storybook): string {
+  const parts = [
+    `<h1>${escapeHtml(book.title)}</h1>`,
+    `<p class="byline">${escapeHtml(book.byline)}</p>`,
+    `<p class="details">${escapeHtml(book.details)}</p>`,
+  ];
+  if (book.backstory) {
+    parts.push('<h2>The World</h2>', markdownToHtml(book.backstory.world));
+    parts.push('<h2>The Hero</h2>', markdownToHtml(book.backstory.hero));
+  }
+  return parts.join('\n');
+}
+
+// imageSrc decides how images are referenced: inline data URIs or files inside the EPUB
+function turnHtml(turn: StoryTurn, imageSrc: (turn: StoryTurn, image: StoryImage) => string): string {
+  const parts = [`<h3>${turnHeading(turn)}</h3>`];
+  if (turn.action !== null) parts.push(`<p class="action">${escapeHtml(turn.action)}</p>`);
+  for (const roll of turn.rolls) parts.push(`<p class="roll">${escapeHtml(roll)}</p>`);
+  parts.push(markdownToHtml(turn.narrative));
+  if (turn.image) {
+    parts.push(`<div class="scene"><img src="${imageSrc(turn, turn.image)}" alt="${turnHeading(turn)}" /></div>`);
+  }
+  return parts.join('\n');
+}
+
+function epilogueHtml(epilogue: StoryEpilogue): string {
+  return [
+    `<h2>Epilogue: ${escapeHtml(epilogue.title)}</h2>`,
+    markdownToHtml(epilogue.text),
+    ...(epilogue.legacy ? [`<p class="legacy">${escapeHtml(epilogue.legacy)}</p>`] : []),
+  ].join('\n');
+}
+
+export function renderHtml(book: Storybook): string {
+  const dataUri = (_turn: StoryTurn, image: StoryImage) => `data:${image.mimeType};base64,${image.data}`;
+  const body = [
+    frontMatterHtml(book),
+    ...chapters(book).map(chapter =>
+      `<section class="chapter">\n<h2>${ACT_LABELS[chapter.act]}</h2>\n${chapter.turns.map(turn => turnHtml(turn, dataUri)).join('\n')}\n</section>`),
+    ...(book.epilogue ? [`<section class="chapter">\n${epilogueHtml(book.epilogue)}\n</section>`] : []),
+  ].join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(book.title)}</title>
+<style>${STYLESHEET}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function xhtmlDocument(title: string, body: string, extraNamespaces = ''): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml"${extraNamespaces} xml:lang="en" lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+// EPUB 3: a title page, one chapter per act and the epilogue, images stored as files
+export function renderEpub(book: Storybook): Buffer {
+  const imagePath = (turn: StoryTurn, image: StoryImage) => `images/turn-${turn.number}.${image.extension}`;
+  const documents: { id: string; file: string; title: string; body: string }[] = [
+    { id: 'title', file: 'title.xhtml', title: book.title, body: frontMatterHtml(book) },
+    ...chapters(book).map((chapter, index) => ({
+      id: `chapter-${index + 1}`,
+      file: `chapter-${index + 1}.xhtml`,
+      title: ACT_LABELS[chapter.act],
+      body: `<h2>${ACT_LABELS[chapter.act]}</h2>\n${chapter.turns.map(turn => turnHtml(turn, imagePath)).join('\n')}`,
+    })),
+    ...(book.epilogue ? [{ id: 'epilogue', file: 'epilogue.xhtml', title: 'Epilogue', body: epilogueHtml(book.epilogue) }] : []),
+  ];
+  const images = book.turns.flatMap(turn => turn.image ? [{ turn, image: turn.image }] : []);
+
+  const nav = xhtmlDocument(book.title, `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${documents.map(doc => `<li><a href="${doc.file}">${escapeHtml(doc.title)}</a></li>`).join('\n')}
+</ol>
+</nav>`, ' xmlns:epub="http://www.idpf.org/2007/ops"');
+
+  const modified = book.updatedAt.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const opf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${escapeHtml(book.id)}</dc:identifier>
+    <dc:title>${escapeHtml(book.title)}</dc:title>
+    <dc:creator>GemRPG</dc:creator>
+    <dc:language>en</dc:language>
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="style" href="style.css" media-type="text/css"/>
+${documents.map(doc => `    <item id="${doc.id}" href="${doc.file}" media-type="application/xhtml+xml"/>`).join('\n')}
+${images.map(({ turn, image }) => `    <item id="image-${turn.number}" href="${imagePath(turn, image)}" media-type="${image.mimeType}"/>`).join('\n')}
+  </manifest>
+  <spine>
+${documents.map(doc => `    <itemref idref="${doc.id}"/>`).join('\n')}
+  </spine>
+</package>
+`;
+
+  return createZip([
+    { name: 'mimetype', data: 'application/epub+zip', store: true },
+    { name: 'META-INF/container.xml', data: CONTAINER_XML },
+    { name: 'OEBPS/content.opf', data: opf },
+    { name: 'OEBPS/nav.xhtml', data: nav },
+    { name: 'OEBPS/style.css', data: STYLESHEET },
+    ...documents.map(doc => ({ name: `OEBPS/${doc.file}`, data: xhtmlDocument(doc.title, doc.body) })),
+    // Images are already compressed
+    ...images.map(({ turn, image }) => ({ name: `OEBPS/${imagePath(turn, image)}`, data: Buffer.from(image.data, 'base64'), store: true })),
+  ], book.updatedAt);
+}
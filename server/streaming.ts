@@ -0,0 +1,80 @@
+// Server-Sent Events helpers for streaming turn generation to the client
+import type { Response } from "express";
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+}
+
+export function openEventStream(res: Response): EventStream {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable proxy buffering so events arrive immediately
+  });
+  res.flushHeaders();
+
+  return {
+    send(event, data) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      res.end();
+    },
+  };
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t',
+};
+
+// Incrementally pulls the value of one string field out of a JSON document that is
+// still being generated. feed() returns only the newly decoded characters.
+export function createFieldExtractor(field: string) {
+  const opener = new RegExp(`"${field}"\\s*:\\s*"`);
+  let buffer = "";
+  let cursor = -1; // Index of the next undecoded character inside the string value
+  let done = false;
+
+  return {
+    feed(chunk: string): string {
+      buffer += chunk;
+      if (done) return "";
+
+      if (cursor < 0) {
+        const match = opener.exec(buffer);
+        if (!match) return "";
+        cursor = match.index + match[0].length;
+      }
+
+      let out = "";
+      while (cursor < buffer.length) {
+        const ch = buffer[cursor];
+        if (ch === '"') {
+          done = true;
+          break;
+        }
+        if (ch !== '\\') {
+          out += ch;
+          cursor++;
+          continue;
+        }
+
+        // Escape sequence - wait for more input if it is cut off
+        const next = buffer[cursor + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+          const hex = buffer.slice(cursor + 2, cursor + 6);
+          if (hex.length < 4) break;
+          out += String.fromCharCode(parseInt(hex, 16));
+          cursor += 6;
+        } else {
+          out += ESCAPES[next] ?? next;
+          cursor += 2;
+        }
+      }
+      return out;
+    },
+  };
+}
@@ -5,6 +5,8 @@ import viteConfig from "../vite.config";
 import fs from "fs";
 import path from "path";
 import { nanoid } from "nanoid";
+import { applyMetaTags } from "../vite-plugin-meta-images";
+import { getShareMetaTags } from "./share";
 
 const viteLogger = createLogger();
 
@@ -48,7 +50,11 @@ export async function setupVite(server: Server, app: Express) {
         `src="/src/main.tsx"`,
         `src="/src/main.tsx?v=${nanoid()}"`,
       );
-      const page = await vite.transformIndexHtml(url, template);
+      let page = await vite.transformIndexHtml(url, template);
+      const meta = await getShareMetaTags(url, `${req.protocol}://${req.get("host")}`);
+      if (meta) {
+        page = applyMetaTags(page, meta);
+      }
       res.status(200).set({ "Content-Type": "text/html" }).end(page);
     } catch (e) {
       vite.ssrFixStacktrace(e as Error);
@@ -0,0 +1,46 @@
+// Three-act structure. The server tracks which act the story is in (the model signals a
+// new act with act_advanced) and compares it with where the act should be by now.
+import { CAMPAIGN_LENGTH_SETTINGS, type CampaignLength } from "./campaign-length";
+
+export const ACT_COUNT = 3;
+export type Act = 1 | 2 | 3;
+
+// Share of the campaign at which Act 2 and Act 3 should begin
+const ACT_STARTS: Record<Act, number> = { 1: 0, 2: 0.3, 3: 0.75 };
+
+export const ACT_LABELS: Record<Act, string> = {
+  1: 'Act I',
+  2: 'Act II',
+  3: 'Act III',
+};
+
+// Stored or client-sent act, falling back to Act 1
+export function parseAct(value: unknown): Act {
+  return value === 2 || value === 3 ? value : 1;
+}
+
+// Trial games are cut off by maxTurns, but the story is still paced to its chosen length
+export function targetTurnsFor(length: CampaignLength): number {
+  return CAMPAIGN_LENGTH_SETTINGS[length].targetTurns;
+}
+
+// Turn at which an act should begin
+export function actStartTurn(act: Act, targetTurns: number): number {
+  return Math.max(1, Math.round(ACT_STARTS[act] * targetTurns));
+}
+
+// The turn's act after the model's act_advanced signal, one act at a time
+export function advanceAct(act: Act, advanced: boolean | undefined): Act {
+  if (!advanced || act >= ACT_COUNT) return act;
+  return (act + 1) as Act;
+}
+
+export type Pacing = 'behind' | 'on_track' | 'ahead';
+
+// Behind: the next act's start turn has passed. Ahead: the current act began early and
+// hasn't had the turns it was due yet.
+export function getPacing(act: Act, turn: number, targetTurns: number): Pacing {
+  if (act < ACT_COUNT && turn >= actStartTurn((act + 1) as Act, targetTurns)) return 'behind';
+  if (act > 1 && turn < actStartTurn(act, targetTurns)) return 'ahead';
+  return 'on_track';
+}
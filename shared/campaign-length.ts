@@ -0,0 +1,49 @@
+// Campaign length presets, chosen at character creation. The target turn count drives act
+// pacing (see shared/acts.ts) and tells the campaign architect how big a story to plan.
+
+export const campaignLengthValues = ['one_shot', 'short', 'standard', 'epic'] as const;
+export type CampaignLength = typeof campaignLengthValues[number];
+
+export const DEFAULT_CAMPAIGN_LENGTH: CampaignLength = 'standard';
+
+export interface CampaignLengthSettings {
+  label: string;
+  description: string; // Shown in the creation screen
+  targetTurns: number;
+  scope: string;       // How big a story the campaign architect should outline
+}
+
+export const CAMPAIGN_LENGTH_SETTINGS: Record<CampaignLength, CampaignLengthSettings> = {
+  one_shot: {
+    label: 'One-Shot',
+    description: 'About 15 turns. A single tight adventure.',
+    targetTurns: 15,
+    scope: 'a one-shot: one location, one antagonist, one night - each act is only a handful of scenes',
+  },
+  short: {
+    label: 'Short',
+    description: 'About 40 turns. A compact quest.',
+    targetTurns: 40,
+    scope: 'a short quest: a few locations and a single clear threat',
+  },
+  standard: {
+    label: 'Standard',
+    description: 'About 60 turns. A full campaign.',
+    targetTurns: 60,
+    scope: 'a full campaign: several regions, allies and rivals, and a twist that reframes the quest',
+  },
+  epic: {
+    label: 'Epic',
+    description: 'About 150 turns. A saga with room to wander.',
+    targetTurns: 150,
+    scope: 'an epic saga: many regions and factions, side quests, and a long road to the final confrontation',
+  },
+};
+
+// Turns before the target at which the story should start wrapping up
+export const WRAP_UP_TURNS = 5;
+
+// Stored or client-sent length, falling back to standard
+export function parseCampaignLength(value: unknown): CampaignLength {
+  return campaignLengthValues.includes(value as CampaignLength) ? value as CampaignLength : DEFAULT_CAMPAIGN_LENGTH;
+}
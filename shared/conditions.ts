@@ -0,0 +1,91 @@
+// Status conditions (poisoned, blessed, bleeding...). The model adds and removes them;
+// the server ticks durations and applies their roll and HP effects every turn.
+import { z } from "zod";
+import { rollModeValues, type RollMode } from "./dice";
+
+export const MAX_CONDITIONS = 6;
+export const MAX_CONDITION_DURATION = 10;
+const MAX_ROLL_MODIFIER = 5;
+const MAX_HP_PER_TURN = 5;
+
+// What the model sends to add a condition (structured output)
+export const conditionAddSchema = z.object({
+  name: z.string().min(1).describe("Condition name, e.g. 'Poisoned', 'Blessed', 'Bleeding'"),
+  duration: z.number().describe(`Turns it lasts, 1-${MAX_CONDITION_DURATION}`),
+  roll_modifier: z.number().describe("Added to every d20 roll while active: negative for hindering conditions, positive for helpful ones, 0 for none"),
+  hp_per_turn: z.number().describe("HP gained (positive) or lost (negative) at each of the character's turns, 0 for none"),
+  roll_mode: z.enum(['advantage', 'disadvantage', 'none']).describe("Rolls made while active use advantage (e.g. Invisible) or disadvantage (e.g. Frightened, Blinded), or 'none'"),
+  description: z.string().describe("One short sentence describing the condition"),
+});
+
+export type ConditionAdd = z.infer<typeof conditionAddSchema>;
+
+export interface Condition {
+  name: string;
+  turnsLeft: number;
+  rollModifier: number;
+  hpPerTurn: number;
+  rollMode?: RollMode; // Every roll uses advantage or disadvantage while active
+  description: string;
+}
+
+const conditionSchema = z.object({
+  name: z.string().trim().min(1),
+  turnsLeft: z.number().int().min(1),
+  rollModifier: z.number().int(),
+  hpPerTurn: z.number().int(),
+  rollMode: z.enum(rollModeValues).optional(),
+  description: z.string(),
+});
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, Math.round(value)));
+}
+
+// Bound the model's numbers so a condition can't be a free win or a death sentence
+export function createCondition(add: ConditionAdd): Condition {
+  return {
+    name: add.name.trim(),
+    turnsLeft: clamp(add.duration, 1, MAX_CONDITION_DURATION),
+    rollModifier: clamp(add.roll_modifier, -MAX_ROLL_MODIFIER, MAX_ROLL_MODIFIER),
+    hpPerTurn: clamp(add.hp_per_turn, -MAX_HP_PER_TURN, MAX_HP_PER_TURN),
+    ...(add.roll_mode && add.roll_mode !== 'none' ? { rollMode: add.roll_mode } : {}),
+    description: add.description.trim(),
+  };
+}
+
+// Stored or client-sent conditions, dropping malformed entries and duplicate names and
+// holding effects to the same bounds as createCondition
+export function normalizeConditions(value: unknown): Condition[] {
+  if (!Array.isArray(value)) return [];
+
+  const conditions: Condition[] = [];
+  for (const entry of value) {
+    const parsed = conditionSchema.safeParse(entry);
+    if (!parsed.success || hasCondition(conditions, parsed.data.name)) continue;
+    conditions.push({
+      ...parsed.data,
+      turnsLeft: Math.min(parsed.data.turnsLeft, MAX_CONDITION_DURATION),
+      rollModifier: clamp(parsed.data.rollModifier, -MAX_ROLL_MODIFIER, MAX_ROLL_MODIFIER),
+      hpPerTurn: clamp(parsed.data.hpPerTurn, -MAX_HP_PER_TURN, MAX_HP_PER_TURN),
+    });
+  }
+  return conditions.slice(0, MAX_CONDITIONS);
+}
+
+export function hasCondition(conditions: Condition[], name: string): boolean {
+  return conditions.some(condition => condition.name.toLowerCase() === name.toLowerCase());
+}
+
+export function formatCondition(condition: Condition): string {
+  const effects = [
+    condition.rollModifier ? `${condition.rollModifier > 0 ? '+' : ''}${condition.rollModifier} to rolls` : '',
+    condition.hpPerTurn ? `${condition.hpPerTurn > 0 ? '+' : ''}${condition.hpPerTurn} HP per turn` : '',
+    condition.rollMode ? `${condition.rollMode} on rolls` : '',
+  ].filter(Boolean).join(', ');
+  return `${condition.name} (${condition.turnsLeft} turn${condition.turnsLeft === 1 ? '' : 's'} left${effects ? `, ${effects}` : ''})`;
+}
+
+export function formatConditions(conditions: Condition[]): string {
+  return conditions.length > 0 ? conditions.map(formatCondition).join(', ') : 'None';
+}
@@ -0,0 +1,113 @@
+// Dice expressions such as "2d6+3", "4d6kh3" or "1d20 adv". Parsing and formatting are
+// shared; rolling happens on the server from a seed (see rollDice in server/dice.ts).
+
+export const MAX_DICE = 30;      // Dice in one expression
+export const MAX_SIDES = 100;
+export const MAX_NOTATION_LENGTH = 60;
+
+export interface DiceGroup {
+  sign: 1 | -1;
+  count: number;
+  sides: number;
+  keep?: { mode: 'kh' | 'kl'; count: number }; // Keep the highest / lowest N
+}
+
+export interface DiceExpression {
+  groups: DiceGroup[];
+  modifier: number; // Sum of the flat terms
+}
+
+export interface RolledDie {
+  sides: number;
+  value: number;
+  dropped?: boolean; // Not counted (kh/kl, advantage)
+}
+
+export interface DiceRollResult {
+  notation: string;   // Canonical form of the expression that was rolled
+  label?: string;     // What the roll was for ("/roll", "Healing Potion"...)
+  seed: string;
+  dice: RolledDie[];
+  modifier: number;
+  total: number;
+}
+
+const TERM_PATTERN = /^(\d*)d(\d+)(?:(kh|kl)(\d+))?$/;
+
+// Returns null for anything that isn't a valid, reasonably sized expression
+export function parseDiceNotation(text: string): DiceExpression | null {
+  let source = text.trim().toLowerCase();
+  if (!source || source.length > MAX_NOTATION_LENGTH) return null;
+
+  // "1d20 adv" / "d20 dis" roll the first die group twice and keep one
+  let advantage: 'kh' | 'kl' | null = null;
+  const suffix = /\s+(adv|advantage|dis|disadvantage)$/.exec(source);
+  if (suffix) {
+    advantage = suffix[1].startsWith('adv') ? 'kh' : 'kl';
+    source = source.slice(0, suffix.index);
+  }
+
+  const compact = source.replace(/\s+/g, '');
+  const tokens = compact.match(/[+-]?[^+-]+/g);
+  if (!tokens || tokens.join('') !== compact) return null; // Dangling or doubled signs
+
+  const expression: DiceExpression = { groups: [], modifier: 0 };
+  for (const token of tokens) {
+    const sign = token.startsWith('-') ? -1 : 1;
+    const term = token.replace(/^[+-]/, '');
+
+    if (/^\d+$/.test(term)) {
+      expression.modifier += sign * parseInt(term, 10);
+      continue;
+    }
+
+    const match = TERM_PATTERN.exec(term);
+    if (!match) return null;
+    const count = match[1] ? parseInt(match[1], 10) : 1;
+    const sides = parseInt(match[2], 10);
+    const keepCount = match[4] ? parseInt(match[4], 10) : undefined;
+    if (count < 1 || sides < 2 || sides > MAX_SIDES) return null;
+    if (keepCount !== undefined && (keepCount < 1 || keepCount > count)) return null;
+
+    expression.groups.push({
+      sign,
+      count,
+      sides,
+      ...(match[3] && keepCount !== undefined ? { keep: { mode: match[3] as 'kh' | 'kl', count: keepCount } } : {}),
+    });
+  }
+
+  if (advantage) {
+    const first = expression.groups[0];
+    if (!first || first.count !== 1 || first.keep) return null;
+    expression.groups[0] = { ...first, count: 2, keep: { mode: advantage, count: 1 } };
+  }
+
+  const diceCount = expression.groups.reduce((total, group) => total + group.count, 0);
+  return diceCount > 0 && diceCount <= MAX_DICE ? expression : null;
+}
+
+export function formatDiceExpression(expression: DiceExpression): string {
+  const groups = expression.groups.map((group, index) => {
+    const term = `${group.count}d${group.sides}${group.keep ? `${group.keep.mode}${group.keep.count}` : ''}`;
+    return index === 0 && group.sign > 0 ? term : `${group.sign < 0 ? '-' : '+'}${term}`;
+  });
+  const modifier = expression.modifier !== 0
+    ? `${expression.modifier < 0 ? '-' : '+'}${Math.abs(expression.modifier)}`
+    : '';
+  return `${groups.join('')}${modifier}`;
+}
+
+// "2d6+3 [4, 2] + 3 = 9", dropped dice in parentheses
+export function formatDiceRoll(result: Omit<DiceRollResult, 'seed'>): string {
+  const dice = result.dice.map(die => die.dropped ? `(${die.value})` : `${die.value}`).join(', ');
+  const modifier = result.modifier !== 0 ? ` ${result.modifier < 0 ? '-' : '+'} ${Math.abs(result.modifier)}` : '';
+  return `${result.label ? `${result.label}: ` : ''}${result.notation} [${dice}]${modifier} = ${result.total}`;
+}
+
+// Player dice command typed into the action box: "/roll 2d6+3"
+const ROLL_COMMAND = /^\/roll\s+(.+)$/i;
+
+export function parseRollCommand(input: string): string | null {
+  return ROLL_COMMAND.exec(input.trim())?.[1].trim() ?? null;
+}
@@ -0,0 +1,71 @@
+// Dice roll records shared by the server (which rolls) and the client (which only displays)
+
+export const rollModeValues = ['advantage', 'disadvantage'] as const;
+export type RollMode = typeof rollModeValues[number];
+
+export const rollOutcomeValues = ['crit', 'success', 'partial', 'fail', 'critfail'] as const;
+export type RollOutcome = typeof rollOutcomeValues[number];
+
+// A modifier with the name of whatever granted it, for roll breakdowns
+export interface NamedBonus {
+  source: string;
+  value: number;
+  skill?: string; // Skill category it applies to; unset = every check
+}
+
+export interface RollRecord {
+  seed: string;       // Hex seed the roll was derived from (reproducible audit trail)
+  raw: number;        // Natural d20 result
+  modifier: number;   // Total modifier applied to the raw roll
+  total: number;      // raw + modifier
+  outcome: RollOutcome;
+  skill?: string | null;    // Skill category the action was judged to test
+  dc?: number;              // Difficulty class the total was compared against
+  bonuses?: NamedBonus[];   // Named parts of the modifier
+  rerolled?: number;        // Natural die discarded by a reroll (Halfling luck)
+  mode?: RollMode;          // Rolled 2d20, keeping the higher (advantage) or lower die
+  rolls?: number[];         // Both d20s when rolled with a mode; raw is the one kept
+  modeSources?: string[];   // What granted the advantage or disadvantage
+  traits?: string[];        // Racial traits that changed this roll or its turn
+}
+
+// How far below the DC still counts as a partial success
+export const PARTIAL_SUCCESS_MARGIN = 5;
+
+// Natural 20s and 1s always crit. With a DC, meeting it succeeds and missing it by up to
+// PARTIAL_SUCCESS_MARGIN is a partial success; without one the fixed bands below apply.
+export function getRollOutcome(raw: number, total: number, dc?: number): RollOutcome {
+  if (raw === 20) return 'crit';
+  if (raw === 1) return 'critfail';
+  if (dc !== undefined) {
+    if (total >= dc) return 'success';
+    return total >= dc - PARTIAL_SUCCESS_MARGIN ? 'partial' : 'fail';
+  }
+  if (total >= 15) return 'success';
+  if (total >= 8) return 'partial';
+  return 'fail';
+}
+
+// The d20 an advantage or disadvantage roll didn't keep
+export function discardedRoll(roll: RollRecord): number | null {
+  if (!roll.rolls || roll.rolls.length < 2) return null;
+  return roll.rolls[roll.rolls.indexOf(roll.raw) === 0 ? 1 : 0];
+}
+
+// "12 + 3 stealth = 15 vs DC 13: Success", or "12 (advantage: 12, 7) + 3 ..." for 2d20
+export function formatRollBreakdown(roll: RollRecord): string {
+  const raw = roll.mode && roll.rolls ? `${roll.raw} (${roll.mode}: ${roll.rolls.join(', ')})` : `${roll.raw}`;
+  const modifier = roll.modifier !== 0
+    ? ` ${roll.modifier < 0 ? '-' : '+'} ${Math.abs(roll.modifier)}${roll.skill ? ` ${roll.skill}` : ''} = ${roll.total}`
+    : '';
+  const dc = roll.dc !== undefined ? ` vs DC ${roll.dc}` : '';
+  return `${raw}${modifier}${dc}: ${ROLL_OUTCOME_LABELS[roll.outcome]}`;
+}
+
+export const ROLL_OUTCOME_LABELS: Record<RollOutcome, string> = {
+  crit: 'Critical Success',
+  success: 'Success',
+  partial: 'Partial Success',
+  fail: 'Failure',
+  critfail: 'Critical Failure',
+};
@@ -0,0 +1,52 @@
+// Difficulty modes, chosen at character creation and fixed for the adventure.
+// The rules engine applies the numbers; the prompt text tells the model how to play it.
+
+export const difficultyValues = ['story', 'standard', 'hardcore'] as const;
+export type Difficulty = typeof difficultyValues[number];
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'standard';
+
+export interface DifficultySettings {
+  label: string;
+  description: string; // Shown in the creation screen
+  dcOffset: number;    // Added to every difficulty class
+  damageTaken: number; // Share of HP loss the character actually takes
+  deathAllowed: boolean;
+  canRestart: boolean; // Restart, rewind and fork
+  prompt: string;
+}
+
+export const DIFFICULTY_SETTINGS: Record<Difficulty, DifficultySettings> = {
+  story: {
+    label: 'Story',
+    description: 'No death and half damage. For enjoying the tale.',
+    dcOffset: 0,
+    damageTaken: 0.5,
+    deathAllowed: false,
+    canRestart: true,
+    prompt: 'STORY - the character cannot die; defeat means capture, injury or a setback, never death. Keep danger dramatic but forgiving.',
+  },
+  standard: {
+    label: 'Standard',
+    description: 'The classic balance of risk and reward.',
+    dcOffset: 0,
+    damageTaken: 1,
+    deathAllowed: true,
+    canRestart: true,
+    prompt: 'STANDARD - balanced danger; death is possible when HP reaches 0.',
+  },
+  hardcore: {
+    label: 'Hardcore',
+    description: 'Harder checks. No restarts or rewinds: death is final.',
+    dcOffset: 2,
+    damageTaken: 1,
+    deathAllowed: true,
+    canRestart: false,
+    prompt: 'HARDCORE - the world is unforgiving and enemies fight smart. Death is permanent and cannot be undone; make that weight felt.',
+  },
+};
+
+// Stored or client-sent difficulty, falling back to standard
+export function parseDifficulty(value: unknown): Difficulty {
+  return difficultyValues.includes(value as Difficulty) ? value as Difficulty : DEFAULT_DIFFICULTY;
+}
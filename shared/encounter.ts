@@ -0,0 +1,151 @@
+// Combat encounters. The model only opens a fight and names the enemies; every attack,
+// hit and point of damage after that is rolled by the server (see server/combat.ts).
+import { z } from "zod";
+
+export const damageDieValues = [4, 6, 8, 10, 12] as const;
+
+// What the model sends to open an encounter (structured output)
+export const encounterStartSchema = z.object({
+  enemies: z.array(z.object({
+    name: z.string().min(1).describe("Enemy name, e.g. 'Goblin Scout'"),
+    hp: z.number().describe("Enemy hit points: 4-10 weak, 11-30 standard, 31-80 boss"),
+    armor: z.number().describe("Armor class the player must meet to hit: 10 weak, 13 standard, 16+ heavily armored"),
+    attack_bonus: z.number().describe("Added to the enemy's d20 attack roll: 2-3 weak, 4-5 standard, 6-8 boss"),
+    damage_die: z.number().describe("Damage die size: 4, 6, 8, 10 or 12"),
+  })).describe("1-4 enemies"),
+});
+
+export type EncounterStart = z.infer<typeof encounterStartSchema>;
+
+export interface Enemy {
+  id: string;
+  name: string;
+  hp: number;
+  maxHp: number;
+  armor: number;
+  attackBonus: number;
+  damageDie: number;
+}
+
+export interface AttackResult {
+  attacker: string;
+  target: string;
+  raw: number;        // Natural d20
+  total: number;      // raw + attack modifier
+  defense: number;    // Armor class the attack had to meet
+  hit: boolean;
+  critical: boolean;
+  damage: number;     // After damage reduction
+  damageRoll?: string; // Damage dice, e.g. "1d8+2 [5] + 2 = 7"
+  targetHpAfter: number;
+}
+
+export interface CombatRound {
+  round: number;
+  seed: string;       // Seed for the enemy and damage dice (audit trail)
+  action: 'attack' | 'flee' | 'other';
+  attacks: AttackResult[];
+  fled?: boolean;
+}
+
+export const encounterStatusValues = ['active', 'won', 'fled', 'lost'] as const;
+export type EncounterStatus = typeof encounterStatusValues[number];
+
+export interface Encounter {
+  round: number;
+  status: EncounterStatus;
+  enemies: Enemy[];
+  lastRound: CombatRound | null;
+}
+
+const enemySchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  hp: z.number().int(),
+  maxHp: z.number().int().min(1),
+  armor: z.number().int(),
+  attackBonus: z.number().int(),
+  damageDie: z.number().int(),
+});
+
+const encounterSchema = z.object({
+  round: z.number().int().min(0),
+  status: z.enum(encounterStatusValues),
+  enemies: z.array(enemySchema).max(4),
+  lastRound: z.any().nullable(),
+});
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, Math.round(value)));
+}
+
+// Enemy stats a fight may have, whether the model opened it or it was stored
+function boundEnemy(enemy: Enemy): Enemy {
+  const maxHp = clamp(enemy.maxHp, 1, 80);
+  return {
+    ...enemy,
+    hp: Math.min(maxHp, Math.round(enemy.hp)),
+    maxHp,
+    armor: clamp(enemy.armor, 8, 20),
+    attackBonus: clamp(enemy.attackBonus, 0, 10),
+    damageDie: damageDieValues.reduce((best, die) =>
+      Math.abs(die - enemy.damageDie) < Math.abs(best - enemy.damageDie) ? die : best),
+  };
+}
+
+// Bound the model's enemy stats so a single fight can't be trivial or unwinnable
+export function createEncounter(start: EncounterStart): Encounter | null {
+  const enemies = start.enemies.slice(0, 4).map((enemy, index): Enemy => {
+    const hp = clamp(enemy.hp, 1, 80);
+    return boundEnemy({
+      id: `e${index + 1}`,
+      name: enemy.name.trim(),
+      hp,
+      maxHp: hp,
+      armor: enemy.armor,
+      attackBonus: enemy.attack_bonus,
+      damageDie: enemy.damage_die,
+    });
+  }).filter(enemy => enemy.name);
+
+  return enemies.length > 0 ? { round: 0, status: 'active', enemies, lastRound: null } : null;
+}
+
+// Stored or client-sent encounter, or null if missing or malformed. Enemy stats are
+// bounded like a new fight's, since save files and trial games can be edited.
+export function parseEncounter(value: unknown): Encounter | null {
+  const result = encounterSchema.safeParse(value);
+  return result.success
+    ? { ...result.data, enemies: result.data.enemies.map(boundEnemy) } as Encounter
+    : null;
+}
+
+export function livingEnemies(encounter: Encounter): Enemy[] {
+  return encounter.enemies.filter(enemy => enemy.hp > 0);
+}
+
+// The living enemy an action names, or the first one still standing
+export function findTarget(encounter: Encounter, action: string): Enemy {
+  const living = livingEnemies(encounter);
+  const lower = action.toLowerCase();
+  return living.find(enemy => lower.includes(enemy.name.toLowerCase())) ?? living[0];
+}
+
+export function formatEncounter(encounter: Encounter): string {
+  return encounter.enemies
+    .map(enemy => `${enemy.name}: ${enemy.hp > 0 ? `${enemy.hp}/${enemy.maxHp} HP, armor ${enemy.armor}` : 'defeated'}`)
+    .join('; ');
+}
+
+export function formatCombatRound(round: CombatRound): string {
+  const lines = round.attacks.map(attack => {
+    const result = attack.hit
+      ? `HIT${attack.critical ? ' (critical)' : ''} for ${attack.damage} damage${attack.damageRoll ? ` (${attack.damageRoll})` : ''}, ${attack.target} now at ${attack.targetHpAfter} HP`
+      : 'MISS';
+    return `- ${attack.attacker} attacks ${attack.target}: rolled ${attack.raw} (total ${attack.total} vs ${attack.defense}) - ${result}`;
+  });
+  if (round.action === 'flee') {
+    lines.unshift(round.fled ? '- The player ESCAPED the fight' : '- The player tried to flee and FAILED');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,139 @@
+// Equipment slots and the bonuses equipped items grant. Equipped items are referenced by
+// name and must still be in the inventory.
+import { z } from "zod";
+import type { InventoryItem } from "./inventory";
+import type { NamedBonus } from "./dice";
+
+export const equipmentSlotValues = ['mainHand', 'offHand', 'armor', 'trinket'] as const;
+export type EquipmentSlot = typeof equipmentSlotValues[number];
+export type Equipment = Partial<Record<EquipmentSlot, string>>;
+
+export const EQUIPMENT_SLOT_LABELS: Record<EquipmentSlot, string> = {
+  mainHand: 'Main Hand',
+  offHand: 'Off Hand',
+  armor: 'Armor',
+  trinket: 'Trinket',
+};
+
+export const equipItemSchema = z.object({
+  slot: z.enum(equipmentSlotValues),
+  itemName: z.string().trim().min(1).nullable(), // null unequips the slot
+});
+
+// Totals across all equipped items, however much gear is stacked (conditions cap at ±5 the same way)
+export const MAX_EQUIPMENT_CHECK_BONUS = 5;
+export const MAX_DAMAGE_REDUCTION = 4;
+
+const SHIELD_PATTERN = /shield|buckler/i;
+
+export function slotsForItem(item: InventoryItem): EquipmentSlot[] {
+  switch (item.category) {
+    case 'weapon':
+      return ['mainHand', 'offHand'];
+    case 'armor':
+      return SHIELD_PATTERN.test(item.name) ? ['offHand'] : ['armor'];
+    case 'treasure':
+      return ['trinket'];
+    default:
+      return [];
+  }
+}
+
+function findItem(inventory: InventoryItem[], name: string): InventoryItem | undefined {
+  return inventory.find(item => item.name.toLowerCase() === name.toLowerCase());
+}
+
+// Drop unknown slots, items no longer carried and items in a slot they can't go in
+export function normalizeEquipment(value: unknown, inventory: InventoryItem[]): Equipment {
+  if (!value || typeof value !== 'object') return {};
+
+  const equipment: Equipment = {};
+  const used = new Map<string, number>(); // One slot per carried copy of an item
+  for (const slot of equipmentSlotValues) {
+    const name = (value as Record<string, unknown>)[slot];
+    if (typeof name !== 'string') continue;
+    const item = findItem(inventory, name);
+    const count = item ? used.get(item.name) ?? 0 : 0;
+    if (item && slotsForItem(item).includes(slot) && count < item.quantity) {
+      equipment[slot] = item.name;
+      used.set(item.name, count + 1);
+    }
+  }
+  return equipment;
+}
+
+// Starting loadout: first weapon in hand, first armor worn, a shield in the off hand
+export function autoEquip(inventory: InventoryItem[]): Equipment {
+  const equipment: Equipment = {};
+  for (const item of inventory) {
+    const slot = slotsForItem(item).find(s => s !== 'trinket' && !equipment[s]);
+    if (slot && !Object.values(equipment).includes(item.name)) {
+      equipment[slot] = item.name;
+    }
+  }
+  return equipment;
+}
+
+export function getEquippedItems(equipment: Equipment, inventory: InventoryItem[]): { slot: EquipmentSlot; item: InventoryItem }[] {
+  return equipmentSlotValues.flatMap(slot => {
+    const name = equipment[slot];
+    const item = name ? findItem(inventory, name) : undefined;
+    return item ? [{ slot, item }] : [];
+  });
+}
+
+// Items with an explicit effect use it. Otherwise a main-hand weapon gives +1 to combat
+// checks and worn armor or a shield reduces damage by 1.
+export function getEquipmentBonuses(
+  equipment: Equipment,
+  inventory: InventoryItem[]
+): { checks: NamedBonus[]; damageReduction: NamedBonus[]; advantage: { source: string; skill?: string }[] } {
+  const checks: NamedBonus[] = [];
+  const damageReduction: NamedBonus[] = [];
+  const advantage: { source: string; skill?: string }[] = [];
+
+  for (const { slot, item } of getEquippedItems(equipment, inventory)) {
+    if (item.effect?.kind === 'bonus') {
+      checks.push({ source: item.name, value: item.effect.value, skill: item.effect.skill });
+    } else if (item.effect?.kind === 'damage_reduction') {
+      damageReduction.push({ source: item.name, value: item.effect.value });
+    } else if (item.effect?.kind === 'advantage') {
+      advantage.push({ source: item.name, skill: item.effect.skill });
+    } else if (!item.effect && slot === 'mainHand' && item.category === 'weapon') {
+      checks.push({ source: item.name, value: 1, skill: 'combat' });
+    } else if (!item.effect && item.category === 'armor') {
+      damageReduction.push({ source: item.name, value: 1 });
+    }
+  }
+
+  return { checks, damageReduction: capBonuses(damageReduction, MAX_DAMAGE_REDUCTION), advantage };
+}
+
+// Equipment bonuses to a check of the given skill category, capped in total
+export function getEquipmentCheckBonuses(equipment: Equipment, inventory: InventoryItem[], skill: string | null): NamedBonus[] {
+  const bonuses = getEquipmentBonuses(equipment, inventory).checks.filter(bonus => !bonus.skill || bonus.skill === skill);
+  return capBonuses(bonuses, MAX_EQUIPMENT_CHECK_BONUS);
+}
+
+export function formatEquipment(equipment: Equipment, inventory: InventoryItem[]): string {
+  const equipped = getEquippedItems(equipment, inventory);
+  return equipped.length > 0
+    ? equipped.map(({ slot, item }) => `${item.name} (${EQUIPMENT_SLOT_LABELS[slot]})`).join(', ')
+    : 'Nothing';
+}
+
+export function sumBonuses(bonuses: NamedBonus[]): number {
+  return bonuses.reduce((total, bonus) => total + bonus.value, 0);
+}
+
+// Trims bonuses in order so their total stays within ±max; each source keeps what it actually adds
+export function capBonuses(bonuses: NamedBonus[], max: number): NamedBonus[] {
+  let total = 0;
+  const capped: NamedBonus[] = [];
+  for (const bonus of bonuses) {
+    const value = Math.max(-max - total, Math.min(max - total, bonus.value));
+    total += value;
+    if (value !== 0) capped.push({ ...bonus, value });
+  }
+  return capped;
+}
@@ -1,3 +1,5 @@
+import type { CharacterProgress } from "./progression";
+
 export const SKILL_CATEGORIES = {
   combat: ['melee attacks', 'blocking', 'parrying', 'intimidation', 'wrestling', 'weapon techniques'],
   stealth: ['sneaking', 'hiding', 'lockpicking', 'pickpocketing', 'deception', 'disguise', 'sleight of hand'],
@@ -23,19 +25,74 @@ export const CLASS_BONUSES: Record<string, { modifier: number; modifierType: key
   'Monk': { modifier: 2, modifierType: 'combat' }
 };
 
-export const RACE_BONUSES: Record<string, { trait: string; bonus: string }> = {
-  'Human': { trait: 'Versatile', bonus: '+1 to any skill check (flexible)' },
-  'Elf': { trait: 'Keen Senses', bonus: '+2 to perception, detecting hidden things' },
-  'Dwarf': { trait: 'Resilient', bonus: '+2 to resisting poison, endurance checks' },
-  'Halfling': { trait: 'Lucky', bonus: 'Reroll natural 1s (treat as partial success)' },
-  'Dragonborn': { trait: 'Draconic Power', bonus: '+2 to intimidation, breath attacks' },
-  'Gnome': { trait: 'Clever', bonus: '+2 to magical knowledge, tinkering' },
-  'Half-Orc': { trait: 'Relentless', bonus: '+2 to strength checks, surviving lethal damage once' },
-  'Tiefling': { trait: 'Infernal Heritage', bonus: '+2 to fire resistance, dark bargains' },
-  'Aasimar': { trait: 'Celestial', bonus: '+2 to healing, sensing evil' }
+// Starting (and maximum) HP for each class
+export const CLASS_MAX_HP: Record<string, number> = {
+  'Warrior': 30,
+  'Paladin': 28,
+  'Barbarian': 35,
+  'Ranger': 26,
+  'Rogue': 20,
+  'Mage': 16,
+  'Sorcerer': 18,
+  'Warlock': 20,
+  'Cleric': 24,
+  'Druid': 24,
+  'Bard': 22,
+  'Monk': 24
+};
+
+export const DEFAULT_MAX_HP = 30;
+
+// Starting kit for each class (categories are guessed from the names)
+export const CLASS_STARTING_ITEMS: Record<string, string[]> = {
+  'Warrior': ['Greatsword', 'Chainmail', 'Potion'],
+  'Paladin': ['Longsword', 'Shield', 'Holy Symbol'],
+  'Barbarian': ['Greataxe', 'Handaxe', 'Javelins'],
+  'Ranger': ['Longbow', 'Shortswords', 'Cloak'],
+  'Rogue': ['Daggers', 'Cloak', 'Lockpicks'],
+  'Mage': ['Staff', 'Robes', 'Tome'],
+  'Sorcerer': ['Arcane Focus', 'Dagger', 'Robes'],
+  'Warlock': ['Dagger', 'Eldritch Eye', 'Leather Armor'],
+  'Cleric': ['Mace', 'Shield', 'Holy Symbol'],
+  'Druid': ['Scimitar', 'Wooden Shield', 'Holly'],
+  'Bard': ['Lute', 'Rapier', 'Dagger'],
+  'Monk': ['Staff', 'Darts', 'Meditation Beads'],
 };
 
-export function getCharacterBonuses(className: string, raceName: string): string {
+export function getClassMaxHp(className: string): number {
+  return CLASS_MAX_HP[className] ?? DEFAULT_MAX_HP;
+}
+
+// Tags for checks a racial trait cares about that cut across skill categories
+// (the server tags each action by keyword, see server/rules.ts)
+export const checkTagValues = ['perception', 'endurance', 'intimidation', 'strength', 'tinkering', 'fire', 'bargain'] as const;
+export type CheckTag = typeof checkTagValues[number];
+
+export interface RacialTrait {
+  trait: string;
+  bonus: string; // What the trait does, as shown to the player and the model
+  // Check bonus; applies to every check unless limited to skills or tags
+  check?: { value: number; skills?: (keyof typeof SKILL_CATEGORIES)[]; tags?: CheckTag[] };
+  advantage?: { skills?: (keyof typeof SKILL_CATEGORIES)[]; tags?: CheckTag[] }; // Rolls 2d20, keeps the higher
+  rerollNaturalOne?: boolean;
+  relentless?: boolean; // Drops to 1 HP instead of 0, once per adventure
+}
+
+// Every trait is enforced by the server's rules engine, not left to the model
+export const RACE_BONUSES: Record<string, RacialTrait> = {
+  'Human': { trait: 'Versatile', bonus: '+1 to every check', check: { value: 1 } },
+  'Elf': { trait: 'Keen Senses', bonus: '+2 to perception checks (searching, spotting, listening)', check: { value: 2, tags: ['perception'] } },
+  'Dwarf': { trait: 'Resilient', bonus: 'Advantage on endurance checks and resisting poison', advantage: { tags: ['endurance'] } },
+  'Halfling': { trait: 'Lucky', bonus: 'A natural 1 is rerolled once', rerollNaturalOne: true },
+  'Dragonborn': { trait: 'Draconic Power', bonus: '+2 to intimidation and breath attacks', check: { value: 2, tags: ['intimidation'] } },
+  'Gnome': { trait: 'Clever', bonus: '+2 to arcane checks and tinkering', check: { value: 2, skills: ['arcane'], tags: ['tinkering'] } },
+  'Half-Orc': { trait: 'Relentless', bonus: '+2 to strength checks; once per adventure, drop to 1 HP instead of 0', check: { value: 2, tags: ['strength'] }, relentless: true },
+  'Tiefling': { trait: 'Infernal Heritage', bonus: '+2 to resisting fire and striking dark bargains', check: { value: 2, tags: ['fire', 'bargain'] } },
+  'Aasimar': { trait: 'Celestial', bonus: '+2 to divine checks (healing, sensing evil)', check: { value: 2, skills: ['divine'] } }
+};
+
+// With progress, the prompt gets the character's current ability scores and skill totals
+export function getCharacterBonuses(className: string, raceName: string, progress?: CharacterProgress): string {
   const classData = CLASS_BONUSES[className];
   const raceData = RACE_BONUSES[raceName];
   
@@ -45,7 +102,7 @@ export function getCharacterBonuses(className: string, raceName: string): string
   
   const primarySkills = SKILL_CATEGORIES[classData.modifierType];
   
-  let bonusText = `**CLASS BONUSES (${className}):**\n`;
+  let bonusText = `**CLASS BONUSES (${className}, already included in roll totals):**\n`;
   bonusText += `+${classData.modifier} to: ${primarySkills.join(', ')}\n`;
   
   if (classData.secondaryType && classData.secondaryMod) {
@@ -53,8 +110,20 @@ export function getCharacterBonuses(className: string, raceName: string): string
     bonusText += `+${classData.secondaryMod} to: ${secondarySkills.join(', ')}\n`;
   }
   
-  bonusText += `\n**RACIAL BONUS (${raceName} - ${raceData.trait}):**\n`;
+  bonusText += `\n**RACIAL TRAIT (${raceName} - ${raceData.trait}, applied by the server):**\n`;
   bonusText += raceData.bonus;
   
+  if (progress) {
+    const abilities = Object.entries(progress.abilities)
+      .map(([ability, score]) => `${ability.toUpperCase()} ${score}`)
+      .join(', ');
+    const skills = Object.entries(progress.skills)
+      .map(([category, total]) => `${category} ${total >= 0 ? '+' : ''}${total}`)
+      .join(', ');
+    bonusText += `\n\n**LEVEL ${progress.level} - CURRENT NUMBERS:**\n`;
+    bonusText += `Ability scores: ${abilities}\n`;
+    bonusText += `Skill modifiers (ability + class + level): ${skills}`;
+  }
+
   return bonusText;
 }
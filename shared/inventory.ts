@@ -0,0 +1,153 @@
+// Structured inventory items - returned by the model, stored per turn and shown in the character drawer
+import { z } from "zod";
+import { CLASS_STARTING_ITEMS, SKILL_CATEGORIES } from "./game-bonuses";
+import { parseDiceNotation } from "./dice-notation";
+
+export const itemCategoryValues = ['weapon', 'armor', 'consumable', 'quest', 'treasure'] as const;
+export type ItemCategory = typeof itemCategoryValues[number];
+
+export const ITEM_CATEGORY_LABELS: Record<ItemCategory, string> = {
+  weapon: 'Weapons',
+  armor: 'Armor',
+  consumable: 'Consumables',
+  quest: 'Quest Items',
+  treasure: 'Treasure & Curios',
+};
+
+const skillCategoryValues = Object.keys(SKILL_CATEGORIES) as [keyof typeof SKILL_CATEGORIES, ...(keyof typeof SKILL_CATEGORIES)[]];
+
+export const itemEffectKindValues = ['heal', 'bonus', 'damage_reduction', 'advantage'] as const;
+
+// Largest value each effect may have (bonuses also go as low as the negative); an item can't be a free win
+export const MAX_ITEM_EFFECT: Record<typeof itemEffectKindValues[number], number> = {
+  heal: 30,
+  bonus: 3,
+  damage_reduction: 3,
+  advantage: 0,
+};
+
+export const itemEffectSchema = z.object({
+  kind: z.enum(itemEffectKindValues).describe("heal = restores HP when used, bonus = adds to a skill category's checks, damage_reduction = reduces damage taken, advantage = rolls a skill category's checks with advantage while equipped"),
+  value: z.number().int().describe(`HP healed (up to ${MAX_ITEM_EFFECT.heal}), bonus added (up to +${MAX_ITEM_EFFECT.bonus}), or damage prevented (up to ${MAX_ITEM_EFFECT.damage_reduction}); 0 for advantage`),
+  skill: z.enum(skillCategoryValues).optional().describe("Skill category a bonus or advantage effect applies to (required for those)"),
+  dice: z.string().optional().describe("Dice rolled for a heal effect instead of the flat value, e.g. '2d4+2'"),
+});
+
+export const inventoryItemSchema = z.object({
+  name: z.string().min(1).describe("Specific item name, e.g. 'Rusty Iron Longsword'"),
+  category: z.enum(itemCategoryValues).describe("weapon, armor, consumable, quest or treasure"),
+  quantity: z.number().int().min(1).describe("How many the character carries (stack identical items)"),
+  description: z.string().describe("One short sentence describing the item"),
+  effect: itemEffectSchema.optional().describe("Mechanical effect, only for items that have one"),
+});
+
+export type ItemEffect = z.infer<typeof itemEffectSchema>;
+export type InventoryItem = z.infer<typeof inventoryItemSchema>;
+
+// Keyword guesses for items stored as bare strings before inventory was structured
+const CATEGORY_KEYWORDS: [ItemCategory, RegExp][] = [
+  ['consumable', /potion|elixir|tonic|ration|food|bread|herb|salve|bandage|scroll|flask|torch/i],
+  ['armor', /armou?r|mail|plate|shield|helm|cloak|robe|gauntlet|boots|bracer/i],
+  ['weapon', /sword|axe|bow|dagger|staff|mace|rapier|scimitar|javelin|dart|spear|hammer|blade|club|focus|wand|holy symbol/i],
+  ['quest', /key|map|letter|seal|relic|artifact|sigil|tome|journal|orb/i],
+];
+
+function guessCategory(name: string): ItemCategory {
+  return CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(name))?.[0] ?? 'treasure';
+}
+
+// Parse legacy strings such as "Healing Potion x2", "Potion (x3)" or "3 Torches"
+function parseLegacyItem(text: string): InventoryItem | null {
+  let name = text.trim();
+  let quantity = 1;
+
+  const suffix = /^(.*?)\s*\(?[x×]\s*(\d+)\)?$/i.exec(name);
+  const prefix = /^(\d+)\s*[x×]?\s+(.+)$/i.exec(name);
+  if (suffix) {
+    name = suffix[1].trim();
+    quantity = parseInt(suffix[2], 10);
+  } else if (prefix) {
+    name = prefix[2].trim();
+    quantity = parseInt(prefix[1], 10);
+  }
+
+  if (!name) return null;
+  return { name, category: guessCategory(name), quantity: Math.max(1, quantity), description: '' };
+}
+
+// Bounds an effect's value and drops dice that don't parse (the rolled heal is capped when used).
+// Bonus and advantage effects without a skill category are dropped so they can't apply to every check.
+function clampEffect(effect: ItemEffect): ItemEffect | null {
+  if ((effect.kind === 'bonus' || effect.kind === 'advantage') && !effect.skill) return null;
+
+  const max = MAX_ITEM_EFFECT[effect.kind];
+  const min = effect.kind === 'bonus' ? -max : 0;
+  const { dice, ...rest } = effect;
+  return {
+    ...rest,
+    value: Math.max(min, Math.min(max, effect.value)),
+    ...(effect.kind === 'heal' && dice && parseDiceNotation(dice) ? { dice } : {}),
+  };
+}
+
+// Accepts stored or model output (structured items, legacy strings, or a mix) and returns
+// clean items with identical names stacked into one entry
+export function normalizeInventory(value: unknown): InventoryItem[] {
+  if (!Array.isArray(value)) return [];
+
+  const items: InventoryItem[] = [];
+  for (const entry of value) {
+    let item: InventoryItem | null = null;
+    if (typeof entry === 'string') {
+      item = parseLegacyItem(entry);
+    } else {
+      const parsed = inventoryItemSchema.safeParse(entry);
+      if (parsed.success) {
+        const { effect, ...rest } = parsed.data;
+        const clamped = effect ? clampEffect(effect) : null;
+        item = { ...rest, name: rest.name.trim(), ...(clamped ? { effect: clamped } : {}) };
+      }
+    }
+    if (!item || !item.name) continue;
+
+    const existing = items.find(i => i.name.toLowerCase() === item!.name.toLowerCase());
+    if (existing) {
+      existing.quantity += item.quantity;
+    } else {
+      items.push(item);
+    }
+  }
+  return items;
+}
+
+// The kit a new character of the class starts with
+export function getStartingInventory(className: string): InventoryItem[] {
+  return normalizeInventory(CLASS_STARTING_ITEMS[className] ?? []);
+}
+
+function formatEffect(effect: ItemEffect): string {
+  switch (effect.kind) {
+    case 'bonus':
+      return `+${effect.value} ${effect.skill ?? 'checks'}`;
+    case 'advantage':
+      return `advantage on ${effect.skill ?? 'checks'}`;
+    default:
+      return `${effect.kind.replace('_', ' ')} ${effect.dice ?? effect.value}`;
+  }
+}
+
+export function formatItem(item: InventoryItem): string {
+  const quantity = item.quantity > 1 ? ` x${item.quantity}` : '';
+  const effect = item.effect ? `, ${formatEffect(item.effect)}` : '';
+  return `${item.name}${quantity} (${item.category}${effect})`;
+}
+
+export function formatInventory(items: InventoryItem[]): string {
+  return items.length > 0 ? items.map(formatItem).join(', ') : 'Empty';
+}
+
+export function groupInventory(items: InventoryItem[]): { category: ItemCategory; items: InventoryItem[] }[] {
+  return itemCategoryValues
+    .map(category => ({ category, items: items.filter(item => item.category === category) }))
+    .filter(group => group.items.length > 0);
+}
@@ -0,0 +1,133 @@
+// Ability scores, XP and levels - shared by the creation screen, the turn pipeline and the DM prompt
+import { z } from "zod";
+import { CLASS_BONUSES, SKILL_CATEGORIES, getClassMaxHp } from "./game-bonuses";
+import type { NamedBonus } from "./dice";
+
+export const abilityNames = ['str', 'dex', 'con', 'int', 'wis', 'cha'] as const;
+export type AbilityName = typeof abilityNames[number];
+export type AbilityScores = Record<AbilityName, number>;
+
+export const ABILITY_LABELS: Record<AbilityName, string> = {
+  str: 'Strength',
+  dex: 'Dexterity',
+  con: 'Constitution',
+  int: 'Intelligence',
+  wis: 'Wisdom',
+  cha: 'Charisma',
+};
+
+export const abilityScoresSchema = z.object({
+  str: z.number().int().min(3).max(18),
+  dex: z.number().int().min(3).max(18),
+  con: z.number().int().min(3).max(18),
+  int: z.number().int().min(3).max(18),
+  wis: z.number().int().min(3).max(18),
+  cha: z.number().int().min(3).max(18),
+});
+
+export const DEFAULT_ABILITY_SCORES: AbilityScores = { str: 10, dex: 10, con: 10, int: 10, wis: 10, cha: 10 };
+
+// Point buy: every score starts at 8 and costs points to raise, up to 15
+export const POINT_BUY_BUDGET = 27;
+export const POINT_BUY_MIN = 8;
+export const POINT_BUY_MAX = 15;
+const POINT_BUY_COSTS: Record<number, number> = { 8: 0, 9: 1, 10: 2, 11: 3, 12: 4, 13: 5, 14: 7, 15: 9 };
+
+export function pointBuyCost(scores: AbilityScores): number {
+  return abilityNames.reduce((total, ability) => total + (POINT_BUY_COSTS[scores[ability]] ?? Infinity), 0);
+}
+
+export function abilityModifier(score: number): number {
+  return Math.floor((score - 10) / 2);
+}
+
+// Which ability backs each skill category
+export const SKILL_ABILITIES: Record<keyof typeof SKILL_CATEGORIES, AbilityName> = {
+  combat: 'str',
+  stealth: 'dex',
+  arcane: 'int',
+  divine: 'wis',
+  nature: 'wis',
+  social: 'cha',
+  survival: 'wis',
+};
+
+// Total XP needed to reach each level (index 0 = level 1)
+export const XP_THRESHOLDS = [0, 100, 250, 450, 700, 1000, 1350, 1750, 2200, 2700];
+export const MAX_LEVEL = XP_THRESHOLDS.length;
+
+export function levelForXp(xp: number): number {
+  let level = 1;
+  while (level < MAX_LEVEL && xp >= XP_THRESHOLDS[level]) {
+    level++;
+  }
+  return level;
+}
+
+// XP needed for the next level, or null at max level
+export function xpForNextLevel(level: number): number | null {
+  return level < MAX_LEVEL ? XP_THRESHOLDS[level] : null;
+}
+
+// Class skill modifiers grow by +1 at levels 4, 7 and 10
+export function levelBonus(level: number): number {
+  return Math.floor((level - 1) / 3);
+}
+
+// Max HP: class base plus CON at level 1, then a fifth of the class base (plus CON) per level
+export function getMaxHp(className: string, level: number, abilities: AbilityScores): number {
+  const base = getClassMaxHp(className);
+  const con = abilityModifier(abilities.con);
+  const perLevel = Math.max(1, Math.floor(base / 5) + con);
+  return Math.max(1, base + con + (level - 1) * perLevel);
+}
+
+// Named parts of a skill's modifier (ability, then class training plus level), for roll breakdowns
+export function getSkillBonuses(
+  className: string,
+  abilities: AbilityScores,
+  level: number,
+  skill: keyof typeof SKILL_CATEGORIES
+): NamedBonus[] {
+  const classData = CLASS_BONUSES[className];
+  const ability = SKILL_ABILITIES[skill];
+  const trained = classData?.modifierType === skill ? classData.modifier
+    : classData?.secondaryType === skill ? classData.secondaryMod ?? 0
+    : 0;
+
+  return [
+    { source: ability.toUpperCase(), value: abilityModifier(abilities[ability]), skill },
+    { source: className, value: trained > 0 ? trained + levelBonus(level) : 0, skill },
+  ].filter(bonus => bonus.value !== 0);
+}
+
+// Total modifier per skill category: ability modifier plus class bonus (scaled by level)
+export function getSkillModifiers(
+  className: string,
+  abilities: AbilityScores,
+  level: number
+): Record<keyof typeof SKILL_CATEGORIES, number> {
+  const categories = Object.keys(SKILL_CATEGORIES) as (keyof typeof SKILL_CATEGORIES)[];
+
+  return Object.fromEntries(categories.map(category => [
+    category,
+    getSkillBonuses(className, abilities, level, category).reduce((total, bonus) => total + bonus.value, 0),
+  ])) as Record<keyof typeof SKILL_CATEGORIES, number>;
+}
+
+export function formatModifier(value: number): string {
+  return value >= 0 ? `+${value}` : `${value}`;
+}
+
+// Current numbers for prompts and the character sheet
+export interface CharacterProgress {
+  level: number;
+  xp: number;
+  abilities: AbilityScores;
+  skills: Record<keyof typeof SKILL_CATEGORIES, number>;
+}
+
+export function getCharacterProgress(className: string, abilities: AbilityScores, xp: number): CharacterProgress {
+  const level = levelForXp(xp);
+  return { level, xp, abilities, skills: getSkillModifiers(className, abilities, level) };
+}
@@ -0,0 +1,100 @@
+// Portable adventure save files: the adventures row with its turns, chapter summaries, scene
+// images and epilogue as versioned JSON. Ids and owners are left out and assigned on import.
+import { z } from "zod";
+import {
+  insertAdventureSchema,
+  insertAdventureSummarySchema,
+  insertAdventureTurnSchema,
+  type Adventure,
+  type AdventureSummary,
+  type AdventureTurn,
+  type TurnImage,
+} from "./schema";
+
+export const SAVE_FILE_FORMAT = 'gemrpg-adventure';
+export const SAVE_FILE_VERSION = 1;
+
+// Upgrades a file from the keyed version to the next one. Add an entry whenever
+// SAVE_FILE_VERSION goes up; versions without a path to the current one are rejected.
+const SAVE_FILE_UPGRADES: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {};
+
+const saveFileAdventureSchema = insertAdventureSchema.omit({
+  userId: true,
+  parentAdventureId: true,
+  forkedFromTurn: true,
+  shareToken: true,
+  lastImage: true, // Restored from the latest scene image
+});
+
+export const saveFileSchema = z.object({
+  format: z.literal(SAVE_FILE_FORMAT),
+  version: z.literal(SAVE_FILE_VERSION),
+  exportedAt: z.string(),
+  adventure: saveFileAdventureSchema,
+  turns: z.array(insertAdventureTurnSchema.omit({ adventureId: true })),
+  summaries: z.array(insertAdventureSummarySchema.omit({ adventureId: true })),
+  images: z.array(z.object({
+    turnNumber: z.number().int().min(1),
+    image: z.string().min(1),
+  })),
+}).superRefine((file, ctx) => {
+  // Turns must run 1..turnCount with no gaps; summaries and images must point at them
+  const turnCount = file.adventure.turnCount ?? 0;
+  const numbers = file.turns.map(turn => turn.turnNumber).sort((a, b) => a - b);
+  if (numbers.length !== turnCount || numbers.some((number, index) => number !== index + 1)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['turns'], message: `Expected turns 1 to ${turnCount}` });
+  }
+  if (file.summaries.some(summary => summary.fromTurn < 1 || summary.toTurn > turnCount || summary.fromTurn > summary.toTurn)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['summaries'], message: 'Summary covers turns outside the adventure' });
+  }
+  const imageTurns = file.images.map(image => image.turnNumber);
+  if (imageTurns.some(number => number > turnCount) || new Set(imageTurns).size !== imageTurns.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['images'], message: 'Images must belong to distinct turns' });
+  }
+});
+
+export type SaveFile = z.infer<typeof saveFileSchema>;
+
+export function toSaveFile(
+  adventure: Adventure,
+  turns: AdventureTurn[],
+  summaries: AdventureSummary[],
+  images: TurnImage[]
+) {
+  const { id, userId, createdAt, updatedAt, lastPlayedAt, parentAdventureId, forkedFromTurn, shareToken, lastImage, ...data } = adventure;
+  return {
+    format: SAVE_FILE_FORMAT,
+    version: SAVE_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    adventure: data,
+    turns: turns.map(({ id, adventureId, createdAt, ...turn }) => turn),
+    summaries: summaries.map(({ id, adventureId, createdAt, ...summary }) => summary),
+    images: images.map(({ turnNumber, image }) => ({ turnNumber, image })),
+  };
+}
+
+// Brings an older save file up to SAVE_FILE_VERSION before it is validated
+export function upgradeSaveFile(value: unknown): { ok: boolean; file?: unknown; message?: string } {
+  if (!value || typeof value !== 'object' || (value as Record<string, unknown>).format !== SAVE_FILE_FORMAT) {
+    return { ok: false, message: "Not a GemRPG adventure save file" };
+  }
+
+  let file = value as Record<string, unknown>;
+  const version = file.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { ok: false, message: "Save file has no valid version" };
+  }
+  if (version > SAVE_FILE_VERSION) {
+    return { ok: false, message: "This save file was made by a newer version of GemRPG" };
+  }
+
+  for (let current = version; current < SAVE_FILE_VERSION; current++) {
+    const upgrade = SAVE_FILE_UPGRADES[current];
+    if (!upgrade) {
+      return { ok: false, message: `Save file version ${version} is no longer supported` };
+    }
+    file = { ...upgrade(file), version: current + 1 };
+  }
+
+  return { ok: true, file };
+}
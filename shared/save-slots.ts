@@ -0,0 +1,21 @@
+// Save slots: each adventure still in play ('active') takes one slot, up to the number
+// the player's plan allows. Finished and abandoned adventures stay in the history for free.
+
+export const planTierValues = ['free', 'premium'] as const;
+export type PlanTier = typeof planTierValues[number];
+
+export const SAVE_SLOTS: Record<PlanTier, number> = {
+  free: 3,
+  premium: 10,
+};
+
+export const MAX_SLOT_NAME_LENGTH = 40;
+
+export function planTierFor(user: { isPremium?: boolean | null } | undefined): PlanTier {
+  return user?.isPremium ? 'premium' : 'free';
+}
+
+// Named slot, falling back to the character's name
+export function slotLabel(adventure: { slotName?: string | null; characterName: string }): string {
+  return adventure.slotName?.trim() || adventure.characterName;
+}
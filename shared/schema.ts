@@ -1,5 +1,6 @@
 import { sql } from "drizzle-orm";
 import {
+  type AnyPgColumn,
   index,
   jsonb,
   pgTable,
@@ -8,6 +9,7 @@ import {
   timestamp,
   integer,
   boolean,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -38,6 +40,8 @@ export const users = pgTable("users", {
   stripeCustomerId: varchar("stripe_customer_id"),
   isPremium: boolean("is_premium").default(false),
   premiumExpiresAt: timestamp("premium_expires_at"),
+  // Adventure the player last picked from their save slots
+  currentAdventureId: varchar("current_adventure_id").references((): AnyPgColumn => adventures.id, { onDelete: 'set null' }),
 });
 
 export type UpsertUser = typeof users.$inferInsert;
@@ -55,6 +59,7 @@ export type EndingType = typeof endingTypeValues[number];
 export const adventures = pgTable("adventures", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id).notNull(), // Required - signed-in users only
+  slotName: text("slot_name"), // Player's name for the save slot, character name if unset
   
   // Character info
   characterName: text("character_name").notNull(),
@@ -70,8 +75,26 @@ export const adventures = pgTable("adventures", {
   
   // Current game state
   currentHp: integer("current_hp").notNull(),
+  maxHp: integer("max_hp").notNull().default(30), // Class HP cap - healing never exceeds it
+  abilityScores: jsonb("ability_scores").notNull().default({ str: 10, dex: 10, con: 10, int: 10, wis: 10, cha: 10 }),
+  xp: integer("xp").notNull().default(0),
+  level: integer("level").notNull().default(1), // Derived from xp, stored for listing and sorting
   gold: integer("gold").notNull().default(10),
-  inventory: jsonb("inventory").notNull().default([]), // Array of items
+  inventory: jsonb("inventory").notNull().default([]), // InventoryItem[] (see shared/inventory.ts)
+  equipment: jsonb("equipment").notNull().default({}), // Slot -> inventory item name (see shared/equipment.ts)
+  encounter: jsonb("encounter"), // Current or just-finished fight (see shared/encounter.ts), null outside combat
+  conditions: jsonb("conditions").notNull().default([]), // Condition[] (see shared/conditions.ts)
+  traitsUsed: jsonb("traits_used").notNull().default([]), // Once-per-adventure racial traits already spent
+  difficulty: text("difficulty").notNull().default('standard'), // 'story' | 'standard' | 'hardcore' (see shared/difficulty.ts)
+  currentAct: integer("current_act").notNull().default(1), // 1-3 (see shared/acts.ts)
+  campaignLength: text("campaign_length").notNull().default('standard'), // 'one_shot' | 'short' | 'standard' | 'epic' (see shared/campaign-length.ts)
+  
+  // Branching - set when this adventure was forked from another one
+  parentAdventureId: varchar("parent_adventure_id").references((): AnyPgColumn => adventures.id, { onDelete: 'set null' }),
+  forkedFromTurn: integer("forked_from_turn"), // Last parent turn copied into this adventure
+  
+  // Public read-only link (/share/:token); null when not shared or revoked
+  shareToken: varchar("share_token").unique(),
   
   // Progress tracking
   turnCount: integer("turn_count").notNull().default(0),
@@ -80,6 +103,7 @@ export const adventures = pgTable("adventures", {
   // Adventure status
   status: text("status").notNull().default('active'), // 'active' | 'completed' | 'abandoned'
   endingType: text("ending_type"), // 'victory' | 'death' | 'limit_reached' | null
+  epilogue: jsonb("epilogue"), // Last generated epilogue {epilogue_title, epilogue_text, ending_type, legacy}
   
   // Last scene image (base64)
   lastImage: text("last_image"), // Store the last generated image for resume
@@ -113,6 +137,14 @@ export const adventureTurns = pgTable("adventure_turns", {
   // Player input
   playerAction: text("player_action").notNull(),
   diceRoll: integer("dice_roll"),  // D20 roll for this turn (null for intro/no-roll turns)
+  rollSeed: varchar("roll_seed"), // Seed the server derived the roll from (for auditing)
+  rollModifier: integer("roll_modifier"), // Modifier applied to the raw roll
+  rollOutcome: text("roll_outcome"), // 'crit' | 'success' | 'partial' | 'fail' | 'critfail' | null
+  rollSkill: text("roll_skill"), // Skill category the action was classified as (null = unskilled)
+  rollDc: integer("roll_dc"), // Difficulty class the total was compared against
+  rollMode: text("roll_mode"), // 'advantage' | 'disadvantage' | null
+  rollDiscarded: integer("roll_discarded"), // The d20 not kept when rolled with a mode
+  diceRolls: jsonb("dice_rolls").notNull().default([]), // DiceRollResult[]: healing and /roll results (see shared/dice-notation.ts)
   
   // AI response
   narrative: text("narrative").notNull(),
@@ -120,8 +152,13 @@ export const adventureTurns = pgTable("adventure_turns", {
   
   // State after this turn
   hpAfter: integer("hp_after").notNull(),
+  xpAfter: integer("xp_after"), // Null for turns recorded before XP existed
   goldAfter: integer("gold_after").notNull(),
-  inventoryAfter: jsonb("inventory_after").notNull().default([]),
+  inventoryAfter: jsonb("inventory_after").notNull().default([]), // InventoryItem[]
+  encounterAfter: jsonb("encounter_after"), // Encounter state incl. this turn's combat round
+  actAfter: integer("act_after").notNull().default(1), // Act the story was in after this turn
+  conditionsAfter: jsonb("conditions_after").notNull().default([]), // Condition[]
+  traitsUsedAfter: jsonb("traits_used_after").notNull().default([]), // string[]
   options: jsonb("options").notNull().default([]), // Available options after this turn
   
   // Metadata
@@ -139,6 +176,41 @@ export const insertAdventureTurnSchema = createInsertSchema(adventureTurns).omit
 export type InsertAdventureTurn = z.infer<typeof insertAdventureTurnSchema>;
 export type AdventureTurn = typeof adventureTurns.$inferSelect;
 
+// Adventure summaries table - condensed chapters of older turns, used to keep long prompts small
+export const adventureSummaries = pgTable("adventure_summaries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  adventureId: varchar("adventure_id").references(() => adventures.id, { onDelete: 'cascade' }).notNull(),
+  chapterNumber: integer("chapter_number").notNull(),
+  fromTurn: integer("from_turn").notNull(), // First turn number covered (inclusive)
+  toTurn: integer("to_turn").notNull(), // Last turn number covered (inclusive)
+  summary: text("summary").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_summaries_adventure_id").on(table.adventureId),
+]);
+
+export const insertAdventureSummarySchema = createInsertSchema(adventureSummaries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAdventureSummary = z.infer<typeof insertAdventureSummarySchema>;
+export type AdventureSummary = typeof adventureSummaries.$inferSelect;
+
+// Scene images (base64), one per turn that had one. Kept out of adventure_turns so loading
+// a turn list doesn't pull every picture along with it.
+export const turnImages = pgTable("turn_images", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  adventureId: varchar("adventure_id").references(() => adventures.id, { onDelete: 'cascade' }).notNull(),
+  turnNumber: integer("turn_number").notNull(),
+  image: text("image").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_turn_images_turn").on(table.adventureId, table.turnNumber),
+]);
+
+export type TurnImage = typeof turnImages.$inferSelect;
+
 // IP rate limiting table - tracks free tier usage by IP
 export const ipRateLimits = pgTable("ip_rate_limits", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
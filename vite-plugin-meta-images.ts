@@ -40,19 +40,53 @@ export function metaImagesPlugin(): Plugin {
 
       log('[meta-images] updating meta image tags to:', imageUrl);
 
-      html = html.replace(
-        /<meta\s+property="og:image"\s+content="[^"]*"\s*\/>/g,
-        `<meta property="og:image" content="${imageUrl}" />`
-      );
+      return applyMetaTags(html, { image: imageUrl });
+    },
+  };
+}
 
-      html = html.replace(
-        /<meta\s+name="twitter:image"\s+content="[^"]*"\s*\/>/g,
-        `<meta name="twitter:image" content="${imageUrl}" />`
-      );
+export interface MetaTags {
+  title?: string;
+  description?: string;
+  image?: string; // Absolute URL
+  url?: string;
+}
 
-      return html;
-    },
+/**
+ * Sets OpenGraph and Twitter tags (and the page title) in an index.html, replacing
+ * existing tags and adding missing ones. Also used by the server for share pages.
+ */
+export function applyMetaTags(html: string, tags: MetaTags): string {
+  const set = (attribute: 'property' | 'name', key: string, value: string) => {
+    const tag = `<meta ${attribute}="${key}" content="${escapeAttribute(value)}" />`;
+    const pattern = new RegExp(`<meta\\s+${attribute}="${key}"\\s+content="[^"]*"\\s*\\/>`);
+    // Function replacements, so a "$" in the content is taken literally
+    return pattern.test(html) ? html.replace(pattern, () => tag) : html.replace('</head>', () => `  ${tag}\n  </head>`);
   };
+
+  if (tags.title) {
+    const title = `<title>${escapeAttribute(tags.title)}</title>`;
+    html = html.replace(/<title>[^<]*<\/title>/, () => title);
+    html = set('property', 'og:title', tags.title);
+    html = set('name', 'twitter:title', tags.title);
+  }
+  if (tags.description) {
+    html = set('property', 'og:description', tags.description);
+    html = set('name', 'twitter:description', tags.description);
+  }
+  if (tags.image) {
+    html = set('property', 'og:image', tags.image);
+    html = set('name', 'twitter:image', tags.image);
+    html = set('name', 'twitter:card', 'summary_large_image');
+  }
+  if (tags.url) {
+    html = set('property', 'og:url', tags.url);
+  }
+  return html;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 }
 
 function getDeploymentUrl(): string | null {